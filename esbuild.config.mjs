@@ -40,9 +40,28 @@ const context = await esbuild.context({
 	outfile: 'main.js',
 });
 
+// Command line tool for Node; dependencies (jsdom, turndown) are loaded from node_modules
+const cliContext = await esbuild.context({
+	banner: {
+		js: '#!/usr/bin/env node',
+	},
+	entryPoints: ['src/cli.ts'],
+	bundle: true,
+	platform: 'node',
+	packages: 'external',
+	format: 'cjs',
+	target: 'node20',
+	logLevel: "info",
+	sourcemap: prod ? false : 'inline',
+	treeShaking: true,
+	outfile: 'cli.js',
+});
+
 if (prod) {
 	await context.rebuild();
+	await cliContext.rebuild();
 	process.exit(0);
 } else {
 	await context.watch();
+	await cliContext.watch();
 }
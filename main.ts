@@ -1,40 +1,57 @@
-import { App, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, normalizePath, requestUrl } from 'obsidian';
-import TurndownService from 'turndown';
-// @ts-ignore
-import { gfm } from 'turndown-plugin-gfm';
-
-interface ClipboardToNoteSettings {
-	inboxFolder: string;
-	useOpenAI: boolean;
-	openAIApiKey: string;
-	downloadImages: boolean;
-}
-
-const DEFAULT_SETTINGS: ClipboardToNoteSettings = {
-	inboxFolder: 'Inbox',
-	useOpenAI: false,
-	openAIApiKey: '',
-	downloadImages: false
+import { App, Editor, Notice, ObsidianProtocolData, Plugin, PluginSettingTab, Setting, TFile, normalizePath } from 'obsidian';
+import { ClipPipeline, ProcessedClip } from './src/pipeline';
+import { createObsidianEnvironment } from './src/obsidian-adapter';
+import { ClipboardToNoteSettings, parseSettings } from './src/settings';
+import { SITE_EXTRACTORS } from './src/extractors';
+import { normalizeUrl, stripTrackingParams } from './src/url';
+import { appendImageReport } from './src/images';
+import { BatchItem, BatchProgressModal, extractUrlList } from './src/batch';
+import { runWithConcurrency } from './src/concurrency';
+import { DuplicateAction, appendRevision, getClippedContent, replaceClippedContent, withClipMarker } from './src/duplicates';
+import { chooseDuplicateAction } from './src/duplicate-modal';
+import { countChanges, diffLines } from './src/diff';
+import { confirmReclip } from './src/reclip-modal';
+import { ReviewResult, openReviewModal } from './src/review';
+import { PROTOCOL_ACTION, ProtocolClip, buildBookmarklet, formatHighlight, parseProtocolParams } from './src/protocol';
+import { appendHighlight, formatCitation, formatHighlightEntry, formatHighlightsNote } from './src/quotes';
+import { WatchFilters, classifyCapture, formatWatchStatus, hashText } from './src/watch';
+import { PendingClip, formatFailedCallout, formatPendingCallout, isTransientError, nextRetryTime, placeholderTitle } from './src/queue';
+import { DailyNoteOptions, appendBlock, formatInsertion, getDailyNotePath, insertUnderHeading, pickNote } from './src/insert';
+import { sanitizeTags } from './src/tags';
+import { LLMSettings, LLM_PRESETS } from './src/llm';
+import { DEFAULT_DATE_FORMAT, DEFAULT_TEXT_TEMPLATE, DEFAULT_URL_TEMPLATE, TEMPLATE_VARIABLES, TemplateKind, formatDate, renderTemplate } from './src/template';
+import { ClipboardContent, readClipboard } from './src/clipboard';
+import { MATCH_TYPE_LABELS, RoutingMatchType, createRoutingRule, describeRule } from './src/routing';
+
+// How often the retry queue is checked for clips that are due
+const RETRY_CHECK_INTERVAL = 60 * 1000;
+
+// The part of the core Daily notes plugin that is read; it is not in Obsidian's public API
+interface InternalPlugins {
+	internalPlugins?: {
+		getPluginById(id: string): { instance?: { options?: Partial<DailyNoteOptions> } } | null;
+	};
 }
 
 export default class ClipboardToNotePlugin extends Plugin {
 	settings: ClipboardToNoteSettings;
-	turndownService: TurndownService;
+	// Fetching, conversion and note writing, shared with the command line tool
+	pipeline: ClipPipeline;
+	// Set while the retry queue is processed, so timer and command runs do not overlap
+	retrying = false;
+	// Clipboard watch mode: polling timer (null when off), hashes of the clipboard texts seen
+	// this session, captures since watch mode was turned on
+	watchTimer: number | null = null;
+	watchHashes = new Set<string>();
+	watchCaptures = 0;
+	lastWatchedText = '';
+	capturing = false;
+	watchStatusEl: HTMLElement;
 
 	async onload() {
 		await this.loadSettings();
 
-		// Initialize Turndown
-		this.turndownService = new TurndownService({
-			headingStyle: 'atx',
-			hr: '---',
-			bulletListMarker: '-',
-			codeBlockStyle: 'fenced',
-			emDelimiter: '*'
-		});
-
-		// Add GFM (GitHub Flavored Markdown) support for tables, strikethrough, etc.
-		this.turndownService.use(gfm);
+		this.pipeline = new ClipPipeline(this.settings, createObsidianEnvironment(this.app));
 
 		// Add ribbon icon
 		this.addRibbonIcon('clipboard', 'Create note from clipboard', async () => {
@@ -50,560 +67,872 @@ export default class ClipboardToNotePlugin extends Plugin {
 			}
 		});
 
-		// Add settings tab
-		this.addSettingTab(new ClipboardToNoteSettingTab(this.app, this));
-	}
-
-	// OpenAI-powered tag suggestion
-	async suggestTagsOpenAI(text: string): Promise<string[]> {
-		if (!this.settings.openAIApiKey) {
-			console.log('OpenAI API key not set, falling back to keyword matching');
-			return this.suggestTagsKeyword(text);
-		}
+		this.addCommand({
+			id: 'insert-clipboard-at-cursor',
+			name: 'Insert clipboard at cursor',
+			editorCallback: async (editor, view) => {
+				await this.insertClipAtCursor(editor, view.file);
+			}
+		});
 
-		try {
-			// Get all folder names
-			const folders = this.app.vault.getAllFolders();
-			const folderNames = folders
-				.filter(f => f.path !== '' && f.path !== '/')
-				.map(f => {
-					const parts = f.path.split('/');
-					return parts[parts.length - 1];
-				});
+		this.addCommand({
+			id: 'append-clipboard-to-daily-note',
+			name: 'Append clipboard to daily note',
+			callback: async () => {
+				await this.appendClipToDailyNote();
+			}
+		});
 
-			if (folderNames.length === 0) {
-				return [];
-			}
-
-			// Call OpenAI API
-			const response = await fetch('https://api.openai.com/v1/chat/completions', {
-				method: 'POST',
-				headers: {
-					'Content-Type': 'application/json',
-					'Authorization': `Bearer ${this.settings.openAIApiKey}`
-				},
-				body: JSON.stringify({
-					model: 'gpt-3.5-turbo',
-					messages: [
-						{
-							role: 'system',
-							content: 'You are a helpful assistant that suggests relevant tags for notes based on their content. You will be given note content and a list of available folder/tag names. Return only the 3 most relevant tags as a JSON array of strings. The tags must be from the provided list.'
-						},
-						{
-							role: 'user',
-							content: `Note content:\n${text}\n\nAvailable tags:\n${folderNames.join(', ')}\n\nReturn the 3 most relevant tags as a JSON array.`
-						}
-					],
-					temperature: 0.3,
-					max_tokens: 100
-				})
-			});
+		this.addCommand({
+			id: 'append-clipboard-to-note',
+			name: 'Append clipboard to note...',
+			callback: async () => {
+				await this.appendClipToChosenNote();
+			}
+		});
 
-			if (!response.ok) {
-				const error = await response.text();
-				console.error('OpenAI API error:', error);
-				return this.suggestTagsKeyword(text);
+		this.addCommand({
+			id: 'reclip-current-note',
+			name: 'Re-clip current note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				const url = file ? this.pipeline.getSourceUrl(file.path) : undefined;
+				if (!file || !url) return false;
+				if (!checking) {
+					void this.reclipNote(file, url);
+				}
+				return true;
 			}
+		});
 
-			const data = await response.json();
-			const content = data.choices[0].message.content.trim();
+		this.addCommand({
+			id: 'toggle-clipboard-watch',
+			name: 'Toggle clipboard watch mode',
+			callback: async () => {
+				await this.toggleClipboardWatch();
+			}
+		});
 
-			// Parse JSON response
-			const tags = JSON.parse(content);
+		// Watch state and capture count; clicking toggles watch mode
+		this.watchStatusEl = this.addStatusBarItem();
+		this.watchStatusEl.addClass('mod-clickable');
+		this.registerDomEvent(this.watchStatusEl, 'click', () => this.toggleClipboardWatch());
+		this.updateWatchStatus();
 
-			if (Array.isArray(tags)) {
-				console.log('OpenAI suggested tags:', tags);
-				return tags.slice(0, 3);
+		this.addCommand({
+			id: 'retry-pending-clips',
+			name: 'Retry pending clips',
+			callback: async () => {
+				await this.retryPendingClips(true);
 			}
+		});
 
-			return this.suggestTagsKeyword(text);
-		} catch (error) {
-			console.error('Error calling OpenAI API:', error);
-			return this.suggestTagsKeyword(text);
-		}
-	}
+		this.addCommand({
+			id: 'dry-run-routing',
+			name: 'Show which routing rule matches the clipboard',
+			callback: async () => {
+				await this.dryRunRouting();
+			}
+		});
 
-	// Simple keyword-based tag suggestion (fallback)
-	suggestTagsKeyword(text: string): string[] {
-		const folders = this.app.vault.getAllFolders();
-		const lowerText = text.toLowerCase();
-		const tags: { folder: string; score: number }[] = [];
+		// obsidian://clipboard-to-note?url=...&selection=... links from the bookmarklet and other apps
+		this.registerObsidianProtocolHandler(PROTOCOL_ACTION, params => this.clipFromProtocol(params));
 
-		for (const folder of folders) {
-			if (folder.path === '' || folder.path === '/') continue;
+		// Add settings tab
+		this.addSettingTab(new ClipboardToNoteSettingTab(this.app, this));
 
-			// Get folder name (last part of path)
-			const parts = folder.path.split('/');
-			const folderName = parts[parts.length - 1];
-			const lowerFolderName = folderName.toLowerCase();
+		// Failed URL clips are retried once the vault is loaded, when due, and as soon as the device is back online
+		this.app.workspace.onLayoutReady(() => this.retryPendingClips(false));
+		this.registerInterval(window.setInterval(() => this.retryPendingClips(false), RETRY_CHECK_INTERVAL));
+		// Back online: everything queued is retried, without a notice when there is nothing to retry
+		this.registerDomEvent(window, 'online', () => this.retryPendingClips(true, false));
+
+		// Placeholder notes may be moved or renamed before they are filled in
+		this.registerEvent(this.app.vault.on('rename', async (file, oldPath) => {
+			const entry = this.settings.pendingClips.find(pending => pending.path === oldPath);
+			if (entry) {
+				entry.path = file.path;
+				await this.saveSettings();
+			}
+		}));
+	}
 
-			// Calculate simple keyword match score
-			let score = 0;
+	async readClipboardContent(): Promise<ClipboardContent> {
+		// Read clipboard (plain text, plus HTML and images when available)
+		if (this.settings.useRichClipboard) {
+			return await readClipboard();
+		}
+		return { text: await navigator.clipboard.readText(), images: [] };
+	}
 
-			// Exact folder name match
-			if (lowerText.includes(lowerFolderName)) {
-				score += 10;
-			}
+	// Automatic captures (watch mode) skip the review modal, leave already clipped URLs alone
+	// and do not open the new note; returns the note that was written, if any
+	async createNoteFromClipboard(automatic = false): Promise<TFile | null> {
+		try {
+			const clipboard = await this.readClipboardContent();
 
-			// Word-by-word matching
-			const folderWords = lowerFolderName.split(/[\s-_]+/);
-			for (const word of folderWords) {
-				if (word.length > 2 && lowerText.includes(word)) {
-					score += 3;
-				}
+			// A list of links becomes one note per link
+			const urls = automatic ? null : extractUrlList(clipboard.text || '');
+			if (urls) {
+				await this.clipBatch(urls);
+				return null;
 			}
 
-			if (score > 0) {
-				tags.push({ folder: folderName, score });
+			// A single link that cannot be fetched right now is queued instead of lost
+			if (this.pipeline.isURL(clipboard.text || '')) {
+				return await this.clipURL((clipboard.text || '').trim(), automatic);
 			}
-		}
 
-		// Sort by score and return top 3
-		tags.sort((a, b) => b.score - a.score);
-		return tags.slice(0, 3).map(t => t.folder);
-	}
+			const clip = await this.pipeline.processClipboard(clipboard);
+			if (!clip) return null;
 
-	isURL(text: string): boolean {
-		const trimmed = text.trim();
-		// Check if it's a single line and starts with http/https
-		if (trimmed.split('\n').length > 1) return false;
-		return /^https?:\/\/.+/.test(trimmed);
+			return await this.saveClip(clip, automatic);
+		} catch (error) {
+			console.error('Error creating note from clipboard:', error);
+			new Notice(`Error creating note: ${error.message}`);
+			return null;
+		}
 	}
 
-	async fetchURLContent(url: string): Promise<{ title: string; content: string; html: string }> {
+	// Clip a page sent through an obsidian:// link, or only the text selection when no URL is given
+	async clipFromProtocol(params: ObsidianProtocolData): Promise<TFile | null> {
+		const request = parseProtocolParams(params);
 		try {
-			// Use Obsidian's requestUrl which bypasses CORS
-			const response = await requestUrl({
-				url: url,
-				method: 'GET',
-				headers: {
-					'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+			if (request.url) {
+				if (!this.pipeline.isURL(request.url)) {
+					new Notice(`Not a web address: ${request.url}`);
+					return null;
 				}
-			});
-
-			if (response.status !== 200) {
-				throw new Error(`HTTP ${response.status}: Failed to fetch URL`);
+				return await this.clipURL(request.url, false, clip => this.applyProtocolClip(clip, request));
 			}
-
-			const html = response.text;
-
-			if (!html || html.trim() === '') {
-				throw new Error('Received empty response from URL');
+			if (request.selection) {
+				const clip = await this.pipeline.processClipboard({ text: request.selection, images: [] });
+				if (!clip) return null;
+				this.applyProtocolClip(clip, request);
+				return await this.saveClip(clip);
 			}
-
-			const parser = new DOMParser();
-			const doc = parser.parseFromString(html, 'text/html');
-
-			// Extract title
-			let title = doc.querySelector('title')?.textContent ||
-						doc.querySelector('h1')?.textContent ||
-						'Web Clipping';
-			title = title.trim();
-
-			// Convert HTML to markdown using Turndown
-			const markdown = this.turndownService.turndown(doc.body);
-
-			return { title, content: markdown, html };
+			new Notice('Nothing to clip: the link has neither a URL nor a selection');
+			return null;
 		} catch (error) {
-			console.error('Error fetching URL:', error);
-			throw new Error(`Failed to fetch URL: ${error.message}`);
+			console.error('Error clipping from link:', error);
+			new Notice(`Error creating note: ${error.message}`);
+			return null;
 		}
 	}
 
-	getAttachmentFolder(notePath: string): string {
-		// @ts-ignore - accessing Obsidian's internal settings
-		const attachmentFolderPath = this.app.vault.getConfig('attachmentFolderPath');
-		// @ts-ignore - accessing Obsidian's internal settings
-		const subfolderFormat = this.app.vault.getConfig('newFileFolderPath');
-
-		// If no specific attachment folder is set, use same folder as note
-		if (!attachmentFolderPath || attachmentFolderPath === '/') {
-			const noteDir = notePath.substring(0, notePath.lastIndexOf('/'));
-			return noteDir || '.';
+	// Title, tags and folder from the link win over the clip's own; a selection on a web page
+	// becomes a highlight above the page content
+	applyProtocolClip(clip: ProcessedClip, request: ProtocolClip) {
+		if (request.title) {
+			clip.title = request.title;
 		}
+		clip.tags = sanitizeTags([...clip.tags, ...request.tags]);
+		if (request.folder) {
+			clip.folder = normalizePath(request.folder);
+		}
+		if (request.url && request.selection) {
+			clip.selection = request.selection;
+			clip.content = `${formatHighlight(request.selection)}\n\n${clip.content}`;
+		}
+	}
 
-		// If it's an absolute path, use it directly
-		if (attachmentFolderPath.startsWith('/') || !attachmentFolderPath.includes('./')) {
-			return attachmentFolderPath;
+	// Clip a single URL; offline, timeout and server errors leave a placeholder note that is retried later.
+	// The clip can be adjusted before it is saved
+	async clipURL(url: string, automatic = false, customize?: (clip: ProcessedClip) => void): Promise<TFile | null> {
+		// A link that was clipped before is asked about before it is fetched, so opening the
+		// existing note costs no fetch and no LLM request
+		const existing = this.findClippedNote([url]);
+		let action: DuplicateAction | null = null;
+		if (existing && automatic) {
+			new Notice(`Already clipped: ${existing.basename}`);
+			return null;
+		}
+		if (existing) {
+			action = await chooseDuplicateAction(this.app, existing.path);
+			if (!action) {
+				new Notice('Note creation cancelled');
+				return null;
+			}
+			if (action === 'open') {
+				await this.app.workspace.getLeaf(false).openFile(existing);
+				return existing;
+			}
 		}
 
-		// If it's a relative path (e.g., "./attachments"), resolve it relative to note location
-		if (attachmentFolderPath.startsWith('./')) {
-			const noteDir = notePath.substring(0, notePath.lastIndexOf('/'));
-			const relPath = attachmentFolderPath.substring(2); // Remove "./"
-			return noteDir ? `${noteDir}/${relPath}` : relPath;
+		new Notice('Fetching content from URL...');
+		let clip: ProcessedClip;
+		try {
+			clip = await this.pipeline.processURL(url);
+		} catch (error) {
+			if (!isTransientError(error.message)) {
+				new Notice(error.message);
+				return null;
+			}
+			const file = await this.queueFailedClip(url, error.message);
+			if (!automatic) {
+				const leaf = this.app.workspace.getLeaf(false);
+				await leaf.openFile(file);
+			}
+			new Notice(`${error.message}. Saved as a pending clip, it is retried automatically.`);
+			return file;
 		}
 
-		return attachmentFolderPath;
+		new Notice('URL content fetched successfully');
+		await this.pipeline.summarizeClip(clip);
+		if (customize) customize(clip);
+
+		if (existing && action && action !== 'new') {
+			await this.updateClippedNote(existing, clip, action);
+			return existing;
+		}
+		return await this.saveClip(clip, automatic, existing !== null);
 	}
 
-	async downloadImage(imageUrl: string, filename: string, notePath: string): Promise<string> {
-		try {
-			// Use Obsidian's requestUrl to bypass CORS
-			const response = await requestUrl({
-				url: imageUrl,
-				method: 'GET'
-			});
+	// duplicateChecked: the caller already asked what to do with a note of the same URL
+	async saveClip(clip: ProcessedClip, automatic = false, duplicateChecked = false): Promise<TFile | null> {
+		let { title, content } = clip;
 
-			if (response.status !== 200) {
-				throw new Error(`HTTP ${response.status}: Failed to download image`);
+		// A URL that was clipped before: offer to open, update or extend the existing note
+		if (clip.type === 'url' && !duplicateChecked) {
+			const existing = this.findClippedNote([clip.sourceUrl, clip.baseUrl]);
+			if (existing && automatic) {
+				new Notice(`Already clipped: ${existing.basename}`);
+				return null;
 			}
+			if (existing) {
+				const action = await chooseDuplicateAction(this.app, existing.path);
+				if (!action) {
+					new Notice('Note creation cancelled');
+					return null;
+				}
+				if (action !== 'new') {
+					await this.updateClippedNote(existing, clip, action);
+					return existing;
+				}
+			}
+		}
 
-			const buffer = new Uint8Array(response.arrayBuffer);
+		// Quotes from a page that already has a highlights note are added to it
+		if (clip.type === 'quote' && this.settings.collectHighlights) {
+			const highlights = this.findClippedNote([clip.sourceUrl, clip.baseUrl], 'highlights');
+			if (highlights) {
+				return await this.addHighlight(highlights, clip, automatic);
+			}
+			const pageTitle = String(clip.properties?.source_title || clip.title);
+			title = `Highlights from ${pageTitle}`;
+			content = formatHighlightsNote(pageTitle, clip.sourceUrl || clip.baseUrl, formatHighlightEntry(clip.selection || '', formatDate(new Date(), DEFAULT_DATE_FORMAT)));
+			clip.properties = { ...clip.properties, kind: 'highlights' };
+		}
 
-			// Get Obsidian's attachment folder based on note location
-			const attachmentFolder = this.getAttachmentFolder(notePath);
+		// Routing rules pick the destination folder and add tags
+		const route = this.pipeline.routeClip(clip);
+		let folder = route.folder;
+		let tags = route.tags;
+		if (route.rule) {
+			console.log('Routing rule matched:', route.rule.name || route.rule.pattern);
+		}
 
-			// Ensure attachment folder exists
-			if (attachmentFolder !== '.' && attachmentFolder !== '/') {
-				await this.ensureFolderExists(attachmentFolder);
+		// Let the user review title, tags, folder and content before anything is written
+		if (this.settings.reviewBeforeSaving && !automatic) {
+			const reviewed = await openReviewModal(this.app, { title, tags, folder, content }, this.pipeline.getVaultTags());
+			if (!reviewed) {
+				new Notice('Note creation cancelled');
+				return null;
 			}
+			title = reviewed.title || 'Untitled Note';
+			tags = sanitizeTags(reviewed.tags);
+			folder = reviewed.folder || this.settings.inboxFolder;
+			content = reviewed.content;
+		}
 
-			// Create safe filename
-			const safeFilename = filename.replace(/[\\/:*?"<>|]/g, '-');
-			const filePath = normalizePath(`${attachmentFolder}/${safeFilename}`);
+		const file = await this.writeNote(clip, { title, tags, folder, content }, automatic);
 
-			// Check if file exists, add number if needed
-			let finalPath = filePath;
-			let counter = 1;
-			const baseFilename = safeFilename.replace(/\.[^.]+$/, ''); // Remove extension
-			const extension = safeFilename.match(/\.[^.]+$/)?.[0] || '';
+		// Open the file, unless it was captured in the background
+		if (!automatic) {
+			const leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(file);
+		}
 
-			while (this.app.vault.getAbstractFileByPath(finalPath)) {
-				finalPath = normalizePath(`${attachmentFolder}/${baseFilename}-${counter}${extension}`);
-				counter++;
-			}
+		new Notice(`Note created: ${file.basename} in ${folder}`);
+		return file;
+	}
 
-			// Save file
-			await this.app.vault.createBinary(finalPath, buffer);
+	// Append a quote to the highlights note of its page; its tags are merged into the note's
+	async addHighlight(file: TFile, clip: ProcessedClip, automatic = false): Promise<TFile> {
+		const now = new Date();
+		await this.app.vault.process(file, note => appendHighlight(note, formatHighlightEntry(clip.selection || '', formatDate(now, DEFAULT_DATE_FORMAT))));
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			if ('modified' in frontmatter) {
+				frontmatter.modified = formatDate(now, DEFAULT_DATE_FORMAT);
+			}
+			if (clip.tags.length > 0) {
+				const existing: string[] = Array.isArray(frontmatter.tags) ? frontmatter.tags : frontmatter.tags ? [String(frontmatter.tags)] : [];
+				frontmatter.tags = sanitizeTags([...existing, ...clip.tags]);
+			}
+		});
 
-			return finalPath;
-		} catch (error) {
-			console.error('Error downloading image:', error);
-			return imageUrl; // Return original URL if download fails
+		if (!automatic) {
+			const leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(file);
 		}
+		new Notice(`Highlight added to ${file.basename}`);
+		return file;
 	}
 
-	async generateTitle(text: string): Promise<string> {
-		// Simple title generation: take first sentence or first 50 chars
-		const firstLine = text.trim().split('\n')[0];
-		const cleaned = firstLine.replace(/^#+\s*/, '').trim(); // Remove any existing markdown headers
+	// Write a processed clip as a new note through the pipeline
+	async writeNote(clip: ProcessedClip, note: ReviewResult, quiet = false): Promise<TFile> {
+		const path = await this.pipeline.writeNote(clip, note, quiet);
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`Note not found after writing: ${path}`);
+		}
+		return file;
+	}
 
-		if (cleaned.length > 50) {
-			return cleaned.substring(0, 50).trim() + '...';
+	// Process the clipboard for insertion into an existing note: converted content with its
+	// media saved for that note, and the source as an inline citation instead of frontmatter
+	async prepareInsertion(notePath: string): Promise<string | null> {
+		const clip = await this.pipeline.processClipboard(await this.readClipboardContent());
+		if (!clip) return null;
+
+		// A quote ends with its own citation; the insertion's citation line, with the date and tags, replaces it
+		let { title, content } = clip;
+		if (clip.type === 'quote' && clip.sourceUrl) {
+			title = String(clip.properties?.source_title || title);
+			const citation = formatCitation(title, clip.sourceUrl);
+			if (content.trimEnd().endsWith(citation)) {
+				content = content.trimEnd().slice(0, -citation.length);
+			}
 		}
 
-		return cleaned || 'Untitled Note';
+		content = await this.pipeline.embedClipMedia(clip, content, notePath);
+		return formatInsertion(content, {
+			title,
+			url: clip.sourceUrl,
+			date: new Date(),
+			tags: sanitizeTags(clip.tags)
+		});
 	}
 
-	formatMarkdown(text: string, title: string): string {
-		let content = text.trim();
+	async insertClipAtCursor(editor: Editor, file: TFile | null) {
+		if (!file) {
+			new Notice('The active editor has no file');
+			return;
+		}
 
-		// Remove the title from content if it appears at the beginning
-		// Escape special regex characters in the title
-		const escapedTitle = title.replace(/\.\.\.$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-		const titlePattern = new RegExp(`^#*\\s*${escapedTitle}`, 'i');
-		content = content.replace(titlePattern, '').trim();
+		try {
+			const block = await this.prepareInsertion(file.path);
+			if (block === null) return;
+
+			// Keep the clip in paragraphs of its own when the cursor is in the middle of text
+			const cursor = editor.getCursor('from');
+			const lineBefore = editor.getLine(cursor.line).substring(0, cursor.ch);
+			editor.replaceSelection(`${lineBefore.trim() !== '' ? '\n\n' : ''}${block}\n`);
+			new Notice('Clipboard inserted');
+		} catch (error) {
+			console.error('Error inserting clipboard:', error);
+			new Notice(`Error inserting clipboard: ${error.message}`);
+		}
+	}
 
-		// Ensure headers don't use H1
-		content = content.replace(/^# /gm, '## ');
+	async appendClipToDailyNote() {
+		try {
+			const file = await this.getDailyNote();
+			const block = await this.prepareInsertion(file.path);
+			if (block === null) return;
 
-		return content;
+			await this.app.vault.process(file, note => insertUnderHeading(note, this.settings.dailyNoteHeading, block));
+			new Notice(`Clipboard added to ${file.basename}`);
+		} catch (error) {
+			console.error('Error appending clipboard to daily note:', error);
+			new Notice(`Error appending to daily note: ${error.message}`);
+		}
 	}
 
-	createYamlFrontmatter(tags: string[], sourceUrl?: string): string {
-		const now = new Date();
-		const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
-
-		const tagString = tags.length > 0 ? `[${tags.join(', ')}]` : '[]';
+	async appendClipToChosenNote() {
+		const file = await pickNote(this.app);
+		if (!file) return;
 
-		let frontmatter = `---
-modified: ${timestamp}
-created: ${timestamp}
-tags: ${tagString}`;
+		try {
+			const block = await this.prepareInsertion(file.path);
+			if (block === null) return;
 
-		if (sourceUrl) {
-			frontmatter += `\nsources: "[Website](${sourceUrl})"`;
+			await this.app.vault.process(file, note => appendBlock(note, block));
+			new Notice(`Clipboard added to ${file.basename}`);
+		} catch (error) {
+			console.error('Error appending clipboard to note:', error);
+			new Notice(`Error appending clipboard: ${error.message}`);
 		}
+	}
 
-		frontmatter += '\n---';
-
-		return frontmatter;
+	// Folder, date format and template of the core Daily notes plugin
+	getDailyNoteOptions(): DailyNoteOptions {
+		const options = (this.app as App & InternalPlugins).internalPlugins?.getPluginById('daily-notes')?.instance?.options || {};
+		return {
+			folder: options.folder || '',
+			format: options.format || 'YYYY-MM-DD',
+			template: options.template || ''
+		};
 	}
 
-	async ensureFolderExists(folderPath: string) {
-		const normalizedPath = normalizePath(folderPath);
-		const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+	// Today's daily note, created from the Daily notes template if it does not exist yet
+	async getDailyNote(): Promise<TFile> {
+		const options = this.getDailyNoteOptions();
+		const now = new Date();
+		const path = normalizePath(getDailyNotePath(options, now));
 
-		if (!folder) {
-			console.log(`Creating folder: ${normalizedPath}`);
-			try {
-				await this.app.vault.createFolder(normalizedPath);
-				console.log(`Folder created successfully: ${normalizedPath}`);
-			} catch (error) {
-				console.error(`Failed to create folder ${normalizedPath}:`, error);
-				throw error;
-			}
-		} else {
-			console.log(`Folder already exists: ${normalizedPath}`);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return existing;
 		}
-	}
 
-	async createNoteFromClipboard() {
-		try {
-			// Read clipboard
-			const clipboardText = await navigator.clipboard.readText();
+		const folder = path.substring(0, path.lastIndexOf('/'));
+		if (folder) {
+			await this.pipeline.ensureFolderExists(folder);
+		}
 
-			if (!clipboardText || clipboardText.trim() === '') {
-				new Notice('Clipboard is empty');
-				return;
+		let content = '';
+		if (options.template) {
+			const templatePath = normalizePath(options.template.endsWith('.md') ? options.template : `${options.template}.md`);
+			const templateFile = this.app.vault.getAbstractFileByPath(templatePath);
+			if (templateFile instanceof TFile) {
+				// Daily notes templates use {{date}}, {{date:FORMAT}}, {{time}} and {{title}}
+				content = renderTemplate(await this.app.vault.read(templateFile), {
+					variables: { title: path.split('/').pop()?.replace(/\.md$/, ''), time: formatDate(now, 'HH:mm') },
+					date: now
+				});
 			}
+		}
 
-			console.log('Clipboard content:', clipboardText.substring(0, 100));
-
-			let title: string;
-			let content: string;
-			let tags: string[];
-			let sourceUrl: string | undefined;
-
-			// Check if clipboard contains a URL
-			if (this.isURL(clipboardText)) {
-				const url = clipboardText.trim();
-				new Notice('Fetching content from URL...');
-
-				try {
-					const { title: pageTitle, content: pageContent, html } = await this.fetchURLContent(url);
-					title = pageTitle;
-					sourceUrl = url;
-
-					// First, convert all relative image URLs to absolute URLs
-					// This ensures valid references whether or not images are downloaded
-					content = await this.convertRelativeImageUrls(pageContent, url);
+		return await this.app.vault.create(path, content);
+	}
 
-					// Images will be downloaded after creating the note (if enabled)
-					// so we have the note path for proper attachment folder resolution
+	// Clip every URL of a list with bounded concurrency, then write an index note
+	async clipBatch(urls: string[]) {
+		const items: BatchItem[] = urls.map(url => ({ url, status: 'pending' }));
+		const modal = new BatchProgressModal(this.app, items);
+		modal.open();
 
-					// Suggest tags based on page content
-					tags = this.settings.useOpenAI
-						? await this.suggestTagsOpenAI(pageContent)
-						: this.suggestTagsKeyword(pageContent);
+		await runWithConcurrency(items, this.settings.batchConcurrency, async (item) => {
+			item.status = 'running';
+			modal.update(item);
 
-					new Notice('URL content fetched successfully');
-				} catch (error) {
-					new Notice(`Failed to fetch URL: ${error.message}`);
+			try {
+				// Already clipped URLs are linked from the index instead of clipped again
+				const existing = this.findClippedNote([item.url]);
+				if (existing) {
+					item.status = 'skipped';
+					item.path = existing.path;
+					item.message = 'Already clipped';
 					return;
 				}
-			} else {
-				// Regular text processing
-				new Notice('Processing clipboard content...');
 
-				title = await this.generateTitle(clipboardText);
-				console.log('Generated title:', title);
+				const clip = await this.pipeline.processURL(item.url);
+				await this.pipeline.summarizeClip(clip, false);
+				item.title = clip.title;
 
-				// Suggest tags
-				tags = this.settings.useOpenAI
-					? await this.suggestTagsOpenAI(clipboardText)
-					: this.suggestTagsKeyword(clipboardText);
-				console.log('Suggested tags:', tags);
+				const canonicalDuplicate = this.findClippedNote([clip.sourceUrl]);
+				if (canonicalDuplicate) {
+					item.status = 'skipped';
+					item.path = canonicalDuplicate.path;
+					item.message = 'Already clipped';
+					return;
+				}
 
-				// Format markdown
-				content = this.formatMarkdown(clipboardText, title);
+				const route = this.pipeline.routeClip(clip);
+				const file = await this.writeNote(clip, { title: clip.title, tags: route.tags, folder: route.folder, content: clip.content }, true);
+				item.status = 'done';
+				item.path = file.path;
+			} catch (error) {
+				console.error(`Batch clip failed for ${item.url}:`, error);
+				item.status = 'failed';
+				item.message = error.message;
+				if (isTransientError(error.message)) {
+					// The item stays failed if even the placeholder cannot be written
+					try {
+						const file = await this.queueFailedClip(item.url, error.message);
+						item.path = file.path;
+						item.message = `${error.message} (queued for retry)`;
+					} catch (queueError) {
+						console.error(`Could not queue ${item.url} for retry:`, queueError);
+						item.message = `${error.message} (could not be queued for retry: ${queueError.message})`;
+					}
+				}
+			} finally {
+				modal.update(item);
 			}
+		}, () => modal.cancelled);
 
-			// Create YAML frontmatter
-			const frontmatter = this.createYamlFrontmatter(tags, sourceUrl);
-
-			// Combine everything
-			const fullContent = `${frontmatter}\n\n${content}`;
+		modal.finish();
 
-			console.log('Inbox folder setting:', this.settings.inboxFolder);
+		const index = await this.createBatchIndex(items, modal.cancelled);
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(index);
 
-			// Ensure inbox folder exists
-			await this.ensureFolderExists(this.settings.inboxFolder);
-
-			// Create safe filename
-			const safeTitle = title.replace(/[\\/:*?"<>|]/g, '-');
-			const fileName = `${safeTitle}.md`;
-			const filePath = normalizePath(`${this.settings.inboxFolder}/${fileName}`);
+		const created = items.filter(item => item.status === 'done').length;
+		const failed = items.filter(item => item.status === 'failed').length;
+		new Notice(`Batch clip ${modal.cancelled ? 'cancelled' : 'finished'}: ${created} created, ${failed} failed`);
+	}
 
-			console.log('Attempting to create file at:', filePath);
+	// Index note linking every note of a batch and listing the failures
+	async createBatchIndex(items: BatchItem[], cancelled: boolean): Promise<TFile> {
+		const now = new Date();
+		const folder = this.settings.inboxFolder;
+		await this.pipeline.ensureFolderExists(folder);
+
+		let indexPath = normalizePath(`${folder}/Batch clip ${formatDate(now, 'YYYY-MM-DD HH-mm')}.md`);
+		let counter = 1;
+		while (this.app.vault.getAbstractFileByPath(indexPath)) {
+			indexPath = normalizePath(`${folder}/Batch clip ${formatDate(now, 'YYYY-MM-DD HH-mm')}-${counter}.md`);
+			counter++;
+		}
 
-			// Check if file exists, add number if needed
-			let finalPath = filePath;
-			let counter = 1;
-			while (this.app.vault.getAbstractFileByPath(finalPath)) {
-				const baseTitle = safeTitle.replace(/\.\.\.$/, '');
-				finalPath = normalizePath(`${this.settings.inboxFolder}/${baseTitle}-${counter}.md`);
-				counter++;
-			}
+		const link = (item: BatchItem) => {
+			const file = item.path ? this.app.vault.getAbstractFileByPath(item.path) : null;
+			return file instanceof TFile
+				? this.app.fileManager.generateMarkdownLink(file, indexPath)
+				: item.url;
+		};
+
+		const sections: string[] = [];
+		const created = items.filter(item => item.status === 'done');
+		const skipped = items.filter(item => item.status === 'skipped');
+		const failed = items.filter(item => item.status === 'failed');
+		const notStarted = items.filter(item => item.status === 'pending');
+
+		if (created.length > 0) {
+			sections.push(`## Clipped\n\n${created.map(item => `- ${link(item)} (${item.url})`).join('\n')}`);
+		}
+		if (skipped.length > 0) {
+			sections.push(`## Already clipped\n\n${skipped.map(item => `- ${link(item)} (${item.url})`).join('\n')}`);
+		}
+		if (failed.length > 0) {
+			sections.push(`## Failed\n\n${failed.map(item => `- ${item.path ? `${link(item)} (${item.url})` : item.url}: ${item.message || 'Unknown error'}`).join('\n')}`);
+		}
+		if (notStarted.length > 0) {
+			sections.push(`## Not clipped (${cancelled ? 'cancelled' : 'not started'})\n\n${notStarted.map(item => `- ${item.url}`).join('\n')}`);
+		}
 
-			console.log('Final file path:', finalPath);
+		const timestamp = formatDate(now, DEFAULT_DATE_FORMAT);
+		const body = `---\nmodified: ${timestamp}\ncreated: ${timestamp}\ntags: []\n---\n\n${sections.join('\n\n')}\n`;
+		return await this.app.vault.create(indexPath, body);
+	}
 
-			// Create the file
-			const file = await this.app.vault.create(finalPath, fullContent);
-			console.log('File created:', file.path);
+	// Notes whose source frontmatter points to one of the given URLs (compared normalized)
+	findClippedNote(urls: (string | undefined)[], kind?: 'highlights'): TFile | null {
+		const path = this.pipeline.findClippedNote(urls, kind);
+		const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		return file instanceof TFile ? file : null;
+	}
 
-			// Download images if this was a URL and download images is enabled
-			if (sourceUrl && this.settings.downloadImages) {
+	async updateClippedNote(file: TFile, clip: ProcessedClip, action: DuplicateAction) {
+		if (action !== 'open') {
+			let content = clip.content;
+			if (clip.hasRemoteImages && this.settings.downloadImages) {
 				new Notice('Downloading images...');
-				// Generate a random 3-character prefix for all images from this page
-				const imagePrefix = this.generateImagePrefix();
-				const contentWithLocalImages = await this.downloadImagesInContent(content, sourceUrl, file.path, imagePrefix);
-
-				// Update the file with local image paths
-				const updatedFrontmatter = this.createYamlFrontmatter(tags, sourceUrl);
-				const updatedContent = `${updatedFrontmatter}\n\n${contentWithLocalImages}`;
-				await this.app.vault.modify(file, updatedContent);
+				const images = await this.pipeline.downloadImagesInContent(content, file.path, this.pipeline.generateImagePrefix());
+				this.pipeline.showImageReport(images.report);
+				content = appendImageReport(images.content, images.report);
 			}
 
-			// Open the file
-			const leaf = this.app.workspace.getLeaf(false);
-			await leaf.openFile(file);
+			const now = new Date();
+			await this.app.vault.process(file, note => action === 'replace'
+				? replaceClippedContent(note, content)
+				: appendRevision(note, content, `Revision ${formatDate(now, DEFAULT_DATE_FORMAT)}`));
+			// A new snapshot is linked; earlier ones stay as attachments
+			const archive = await this.pipeline.archivePage(clip, file.path);
+
+			await this.app.fileManager.processFrontMatter(file, frontmatter => {
+				if ('modified' in frontmatter) {
+					frontmatter.modified = formatDate(now, DEFAULT_DATE_FORMAT);
+				}
+				if (archive) {
+					Object.assign(frontmatter, archive);
+				}
+				// Replacing a placeholder fills it in, so it leaves the retry queue
+				if (action === 'replace' && frontmatter.status === 'pending') {
+					delete frontmatter.status;
+					delete frontmatter.error;
+				}
+			});
+			if (action === 'replace') {
+				await this.dequeuePendingClip(file.path);
+			}
+		}
 
-			new Notice(`Note created: ${file.basename} in ${this.settings.inboxFolder}`);
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
 
-		} catch (error) {
-			console.error('Error creating note from clipboard:', error);
-			new Notice(`Error creating note: ${error.message}`);
+		if (action === 'replace') {
+			new Notice(`Note updated: ${file.basename}`);
+		} else if (action === 'append') {
+			new Notice(`New revision added to ${file.basename}`);
 		}
 	}
 
-	generateImagePrefix(): string {
-		// Generate a random 3-character alphanumeric prefix
-		const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
-		let prefix = '';
-		for (let i = 0; i < 3; i++) {
-			prefix += chars.charAt(Math.floor(Math.random() * chars.length));
+	// Fetch a clipped note's source again and show what changed before replacing the clipped content
+	async reclipNote(file: TFile, url: string) {
+		new Notice('Fetching content from URL...');
+		let clip: ProcessedClip;
+		try {
+			clip = await this.pipeline.processURL(url);
+		} catch (error) {
+			new Notice(error.message);
+			return;
 		}
-		return prefix;
-	}
 
-	async convertRelativeImageUrls(markdownContent: string, baseUrl: string): Promise<string> {
-		// Find all image references in markdown
-		const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-		let match;
-		const replacements: { original: string; replacement: string }[] = [];
+		// An archived clip keeps the markdown as converted, before the summary and downloaded images,
+		// and its hash; the page is compared in that form. Without an archive the note's clipped
+		// content is compared
+		const converted = clip.converted || clip.content;
+		const frontmatter = this.pipeline.env.vault.getFrontmatter(file.path);
+		if (frontmatter?.content_hash === await hashText(converted)) {
+			new Notice(`No changes since the last clip: ${file.basename}`);
+			return;
+		}
+		const archived = await this.pipeline.readArchivedMarkdown(file.path);
+		const lines = archived !== undefined
+			? diffLines(archived, converted)
+			: diffLines(getClippedContent(await this.app.vault.read(file)), clip.content);
+		const { added, removed } = countChanges(lines);
+		if (added + removed === 0) {
+			new Notice(`No changes since the last clip: ${file.basename}`);
+			return;
+		}
 
-		console.log('Converting relative image URLs to absolute...');
-		console.log('Base URL:', baseUrl);
+		if (!await confirmReclip(this.app, file.basename, lines)) {
+			new Notice('Re-clip cancelled');
+			return;
+		}
+		// The update gets a summary and downloaded images like a new clip
+		await this.pipeline.summarizeClip(clip);
+		await this.updateClippedNote(file, clip, 'replace');
+	}
 
-		// Ensure base URL ends with / for proper relative URL resolution
-		// If the URL looks like a page (no trailing slash and has path segments),
-		// treat it as a directory by adding a trailing slash
-		let normalizedBaseUrl = baseUrl;
-		if (!baseUrl.endsWith('/')) {
-			// Add trailing slash to treat the URL as a directory
-			normalizedBaseUrl = baseUrl + '/';
+	async toggleClipboardWatch() {
+		if (this.watchTimer !== null) {
+			this.stopClipboardWatch();
+			new Notice('Clipboard watch mode off');
+		} else {
+			await this.startClipboardWatch();
+			new Notice('Clipboard watch mode on: new links and text on the clipboard are captured');
 		}
+	}
 
-		console.log('Normalized base URL:', normalizedBaseUrl);
+	async startClipboardWatch() {
+		// What is on the clipboard already is not captured, only what is copied from now on
+		try {
+			this.lastWatchedText = await navigator.clipboard.readText();
+			this.watchHashes.add(await hashText(this.lastWatchedText));
+		} catch (error) {
+			this.lastWatchedText = '';
+		}
 
-		while ((match = imageRegex.exec(markdownContent)) !== null) {
-			const fullMatch = match[0];
-			const alt = match[1];
-			const imageUrl = match[2];
+		this.watchCaptures = 0;
+		this.watchTimer = window.setInterval(() => this.checkClipboard(), Math.max(1, this.settings.watchInterval) * 1000);
+		this.registerInterval(this.watchTimer);
+		this.updateWatchStatus();
+	}
 
-			// Skip if already an absolute URL
-			if (imageUrl.startsWith('http://') || imageUrl.startsWith('https://')) {
-				continue;
-			}
+	stopClipboardWatch() {
+		if (this.watchTimer !== null) {
+			window.clearInterval(this.watchTimer);
+			this.watchTimer = null;
+		}
+		this.updateWatchStatus();
+	}
 
-			// Skip data URLs and other special schemes
-			if (imageUrl.startsWith('data:') || imageUrl.startsWith('blob:')) {
-				continue;
-			}
+	updateWatchStatus() {
+		this.watchStatusEl?.setText(formatWatchStatus(this.watchTimer !== null, this.watchCaptures));
+	}
 
-			try {
-				// Convert relative URL to absolute using normalized base URL
-				const absoluteUrl = new URL(imageUrl, normalizedBaseUrl).toString();
-				console.log(`Converting relative URL: ${imageUrl} -> ${absoluteUrl}`);
+	// One watch mode poll: capture the clipboard when it holds text not seen before that passes the filters
+	async checkClipboard() {
+		// The clipboard is only read while Obsidian has focus, and one capture runs at a time
+		if (this.capturing || !document.hasFocus()) return;
 
-				const replacement = `![${alt}](${absoluteUrl})`;
-				replacements.push({ original: fullMatch, replacement });
-			} catch (error) {
-				console.error(`Failed to convert relative URL ${imageUrl}:`, error);
+		let text: string;
+		try {
+			text = await navigator.clipboard.readText();
+		} catch (error) {
+			return;
+		}
+		if (text === this.lastWatchedText) return;
+		this.lastWatchedText = text;
+
+		const hash = await hashText(text);
+		if (this.watchHashes.has(hash)) return;
+		this.watchHashes.add(hash);
+
+		const filters: WatchFilters = {
+			captureUrls: this.settings.watchCaptureUrls,
+			captureText: this.settings.watchCaptureText,
+			minLength: this.settings.watchMinLength,
+			allowedDomains: this.settings.watchAllowedDomains,
+			blockedDomains: this.settings.watchBlockedDomains
+		};
+		const capture = classifyCapture(text, filters);
+		if (!capture) return;
+
+		console.log(`Clipboard watch: capturing ${capture}`);
+		this.capturing = true;
+		try {
+			const file = await this.createNoteFromClipboard(true);
+			if (file) {
+				this.watchCaptures++;
+				this.updateWatchStatus();
 			}
+		} finally {
+			this.capturing = false;
 		}
+	}
 
-		// Apply all replacements
-		let result = markdownContent;
-		for (const { original, replacement } of replacements) {
-			result = result.replace(original, replacement);
+	// Placeholder note for a URL that could not be fetched, with `status: pending` and the error,
+	// and its retry queue entry
+	async queueFailedClip(url: string, message: string): Promise<TFile> {
+		const now = Date.now();
+		const queued = this.settings.pendingClips.find(entry => normalizeUrl(entry.url) === normalizeUrl(url));
+		const queuedFile = queued ? this.app.vault.getAbstractFileByPath(queued.path) : null;
+		if (queued && queuedFile instanceof TFile) {
+			return queuedFile;
 		}
 
-		console.log(`Converted ${replacements.length} relative image URLs to absolute`);
-		return result;
+		const entry: PendingClip = { url, path: '', attempts: 1, createdAt: now, nextAttempt: nextRetryTime(1, now), lastError: message };
+		const clip: ProcessedClip = {
+			type: 'url',
+			title: placeholderTitle(url),
+			content: formatPendingCallout(entry),
+			tags: [],
+			sourceUrl: stripTrackingParams(url),
+			baseUrl: url,
+			properties: { status: 'pending', error: message },
+			images: [],
+			hasRemoteImages: false
+		};
+		const route = this.pipeline.routeClip(clip);
+		const file = await this.writeNote(clip, { title: clip.title, tags: route.tags, folder: route.folder, content: clip.content }, true);
+
+		entry.path = file.path;
+		this.settings.pendingClips = [...this.settings.pendingClips.filter(pending => pending !== queued), entry];
+		await this.saveSettings();
+		return file;
 	}
 
-	async downloadImagesInContent(markdownContent: string, baseUrl: string, notePath: string, prefix: string): Promise<string> {
-		// Find all image references in markdown
-		const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
-		let match;
-		const replacements: { original: string; replacement: string }[] = [];
-
-		console.log('Starting image download process...');
-		console.log('Markdown content length:', markdownContent.length);
-		console.log('Note path:', notePath);
-		console.log('Image prefix:', prefix);
+	// Retry the queued clips that are due (all of them when forced); entries whose note was deleted are dropped.
+	// The result is shown when asked for (by default for forced runs) or when clips were filled in
+	async retryPendingClips(force: boolean, notify = force) {
+		if (this.retrying) return;
 
-		while ((match = imageRegex.exec(markdownContent)) !== null) {
-			const fullMatch = match[0];
-			const alt = match[1];
-			let imageUrl = match[2];
+		const live = this.settings.pendingClips.filter(entry => this.app.vault.getAbstractFileByPath(entry.path) instanceof TFile);
+		if (live.length !== this.settings.pendingClips.length) {
+			this.settings.pendingClips = live;
+			await this.saveSettings();
+		}
 
-			console.log('Found image:', imageUrl);
+		const now = Date.now();
+		const due = live.filter(entry => force || entry.nextAttempt <= now);
+		if (due.length === 0) {
+			if (notify) new Notice('No pending clips');
+			return;
+		}
 
-			// Skip if not an HTTP(S) URL (should already be absolute at this point)
-			if (!imageUrl.startsWith('http://') && !imageUrl.startsWith('https://')) {
-				console.log('Skipping non-http image:', imageUrl);
-				continue;
+		this.retrying = true;
+		let filled = 0;
+		try {
+			for (const entry of due) {
+				if (await this.retryPendingClip(entry)) filled++;
 			}
+		} finally {
+			this.retrying = false;
+			await this.saveSettings();
+		}
 
-			try {
-				// Create filename from URL
-				const url = new URL(imageUrl);
-				const pathname = url.pathname;
-				let filename = pathname.split('/').pop() || 'image.jpg';
-
-				// Add extension if missing
-				if (!filename.includes('.')) {
-					filename += '.jpg';
-				}
-
-				// Add prefix to filename
-				const prefixedFilename = `${prefix}_${filename}`;
-
-				console.log('Downloading image:', imageUrl, 'as', prefixedFilename);
-
-				// Download image with note path context
-				const localPath = await this.downloadImage(imageUrl, prefixedFilename, notePath);
-
-				console.log('Image downloaded to:', localPath);
+		if (notify || filled > 0) {
+			new Notice(`Pending clips: ${filled} filled in, ${due.length - filled} not clipped`);
+		}
+	}
 
-				// Create replacement with local path
-				const replacement = `![${alt}](${localPath})`;
-				replacements.push({ original: fullMatch, replacement });
+	// Fill a placeholder note in place; on failure the error is recorded on the note and the next retry scheduled
+	async retryPendingClip(entry: PendingClip): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(entry.path);
+		if (!(file instanceof TFile)) return false;
 
-				console.log(`Successfully downloaded: ${imageUrl} -> ${localPath}`);
-			} catch (error) {
-				console.error(`Failed to download image ${imageUrl}:`, error);
-				// Keep the absolute URL if download fails
+		try {
+			const clip = await this.pipeline.processURL(entry.url);
+			await this.pipeline.summarizeClip(clip, false);
+
+			const content = await this.pipeline.embedClipMedia(clip, clip.content, file.path, true);
+			const route = this.pipeline.routeClip(clip);
+			const note = await this.pipeline.renderNote('url', {
+				title: clip.title,
+				content: withClipMarker(content),
+				tags: route.tags,
+				url: clip.sourceUrl,
+				selection: clip.selection,
+				summary: clip.summary,
+				metadata: clip.metadata,
+				properties: clip.properties
+			}, new Date(entry.createdAt));
+			await this.app.vault.modify(file, note);
+			await this.dequeuePendingClip(file.path);
+
+			// The file name came from the URL; it gets the page title unless the note was renamed meanwhile
+			const placeholderName = placeholderTitle(entry.url).replace(/[\\/:*?"<>|]/g, '-');
+			if (file.basename.startsWith(placeholderName)) {
+				const folder = file.parent ? file.parent.path : '';
+				await this.app.fileManager.renameFile(file, this.pipeline.getAvailableNotePath(folder, clip.title));
+			}
+			console.log(`Pending clip filled in: ${entry.url}`);
+			return true;
+		} catch (error) {
+			console.error(`Retry failed for ${entry.url}:`, error);
+			entry.attempts++;
+			entry.lastError = error.message;
+			entry.nextAttempt = nextRetryTime(entry.attempts, Date.now());
+
+			const permanent = !isTransientError(error.message);
+			if (permanent) {
+				await this.dequeuePendingClip(file.path);
 			}
+			await this.app.vault.process(file, note => replaceClippedContent(note, permanent ? formatFailedCallout(entry) : formatPendingCallout(entry)));
+			await this.app.fileManager.processFrontMatter(file, frontmatter => {
+				frontmatter.status = permanent ? 'failed' : 'pending';
+				frontmatter.error = error.message;
+			});
+			return false;
 		}
+	}
 
-		console.log(`Total images processed: ${replacements.length}`);
-
-		// Apply all replacements
-		let result = markdownContent;
-		for (const { original, replacement } of replacements) {
-			result = result.replace(original, replacement);
+	async dequeuePendingClip(path: string) {
+		const remaining = this.settings.pendingClips.filter(entry => entry.path !== path);
+		if (remaining.length !== this.settings.pendingClips.length) {
+			this.settings.pendingClips = remaining;
+			await this.saveSettings();
 		}
+	}
+
+	// Show which routing rule the current clipboard would match, without creating a note
+	async dryRunRouting() {
+		try {
+			const clip = await this.pipeline.processClipboard(await this.readClipboardContent());
+			if (!clip) return;
+
+			const route = this.pipeline.routeClip(clip);
+			const index = route.rule ? this.settings.routingRules.indexOf(route.rule) : -1;
+			const summary = route.rule
+				? `Routing rule "${describeRule(route.rule, index)}" matches`
+				: 'No routing rule matches, the inbox is used';
+			const extraTags = route.rule && route.rule.tags.length > 0 ? `\nAdded tags: ${route.rule.tags.join(', ')}` : '';
 
-		return result;
+			new Notice(`${summary}\nClipboard type: ${clip.type}\nFolder: ${route.folder}\nTags: ${route.tags.join(', ') || '(none)'}${extraTags}`, 10000);
+		} catch (error) {
+			console.error('Error during routing dry run:', error);
+			new Notice(`Routing dry run failed: ${error.message}`);
+		}
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.settings = parseSettings(await this.loadData() || {});
 	}
 
 	async saveSettings() {
@@ -635,35 +964,264 @@ class ClipboardToNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		containerEl.createEl('h3', { text: 'AI Settings' });
+		new Setting(containerEl)
+			.setName('Use formatted clipboard content')
+			.setDesc('Read HTML and images from the clipboard, keeping links, tables and emphasis from browsers and Word, and saving copied screenshots into a new note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useRichClipboard)
+				.onChange(async (value) => {
+					this.plugin.settings.useRichClipboard = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Quote notes')
+			.setDesc('Text copied from a web page becomes a quote with a citation, and the page URL and title in the frontmatter. Needs formatted clipboard content; browsers that do not name the source page create a regular note')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.quoteNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.quoteNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Collect highlights')
+			.setDesc('Add quotes from a page to one "Highlights from ..." note instead of creating a note per quote')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.collectHighlights)
+				.onChange(async (value) => {
+					this.plugin.settings.collectHighlights = value;
+					await this.plugin.saveSettings();
+				}));
 
 		new Setting(containerEl)
-			.setName('Use OpenAI for tag suggestions')
-			.setDesc('Enable AI-powered semantic tag matching using OpenAI API')
+			.setName('Review before saving')
+			.setDesc('Show the title, tags, destination folder and a preview before the note is created. Turn off to create notes immediately')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.useOpenAI)
+				.setValue(this.plugin.settings.reviewBeforeSaving)
 				.onChange(async (value) => {
-					this.plugin.settings.useOpenAI = value;
+					this.plugin.settings.reviewBeforeSaving = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('OpenAI API Key')
-			.setDesc('Enter your OpenAI API key (required for AI tag suggestions)')
+			.setName('Daily note heading')
+			.setDesc('Clips appended to the daily note go under this heading, which is added if missing. Leave empty to append at the end')
 			.addText(text => text
-				.setPlaceholder('sk-...')
-				.setValue(this.plugin.settings.openAIApiKey)
+				.setPlaceholder('## Clippings')
+				.setValue(this.plugin.settings.dailyNoteHeading)
 				.onChange(async (value) => {
-					this.plugin.settings.openAIApiKey = value;
+					this.plugin.settings.dailyNoteHeading = value;
 					await this.plugin.saveSettings();
-				})
-				.inputEl.setAttribute('type', 'password'));
+				}));
+
+		this.addRoutingSettings(containerEl);
+
+		containerEl.createEl('h3', { text: 'Clipboard Watch' });
+
+		new Setting(containerEl)
+			.setName('Capture URLs')
+			.setDesc('In watch mode, clip every new link copied to the clipboard')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.watchCaptureUrls)
+				.onChange(async (value) => {
+					this.plugin.settings.watchCaptureUrls = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Capture text')
+			.setDesc('In watch mode, create a note from copied text that reaches the minimum length')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.watchCaptureText)
+				.onChange(async (value) => {
+					this.plugin.settings.watchCaptureText = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum text length')
+			.setDesc('Copied text shorter than this many characters is not captured')
+			.addText(text => text
+				.setPlaceholder('200')
+				.setValue(String(this.plugin.settings.watchMinLength))
+				.onChange(async (value) => {
+					const length = parseInt(value, 10);
+					if (!isNaN(length) && length >= 0) {
+						this.plugin.settings.watchMinLength = length;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Allowed domains')
+			.setDesc('Comma-separated; when set, only links on these domains (and their subdomains) are captured')
+			.addText(text => text
+				.setPlaceholder('arxiv.org, github.com')
+				.setValue(this.plugin.settings.watchAllowedDomains)
+				.onChange(async (value) => {
+					this.plugin.settings.watchAllowedDomains = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Blocked domains')
+			.setDesc('Comma-separated; links on these domains are never captured')
+			.addText(text => text
+				.setPlaceholder('mail.google.com, localhost')
+				.setValue(this.plugin.settings.watchBlockedDomains)
+				.onChange(async (value) => {
+					this.plugin.settings.watchBlockedDomains = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Check interval')
+			.setDesc('Seconds between clipboard checks while Obsidian is focused')
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.plugin.settings.watchInterval)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.watchInterval = value;
+					await this.plugin.saveSettings();
+					// A running watch picks up the new interval
+					if (this.plugin.watchTimer !== null) {
+						this.plugin.stopClipboardWatch();
+						await this.plugin.startClipboardWatch();
+					}
+				}));
+
+		this.addBookmarkletSettings(containerEl);
+
+		containerEl.createEl('h3', { text: 'Tag Suggestions' });
+
+		new Setting(containerEl)
+			.setName('Include folder tags')
+			.setDesc('Offer folder paths (e.g. Projects/AI) as candidate tags in addition to the tags used in your notes')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.includeFolderTags)
+				.onChange(async (value) => {
+					this.plugin.settings.includeFolderTags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Number of tags')
+			.setDesc('Maximum number of suggested tags')
+			.addSlider(slider => slider
+				.setLimits(1, 10, 1)
+				.setValue(this.plugin.settings.maxTags)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.maxTags = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum score')
+			.setDesc('Keyword matching only: tags scoring below this are not suggested (a name match scores 10, a word match 3)')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.minTagScore))
+				.onChange(async (value) => {
+					const score = parseFloat(value);
+					if (!isNaN(score) && score >= 0) {
+						this.plugin.settings.minTagScore = score;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		containerEl.createEl('h3', { text: 'AI Settings' });
+
+		new Setting(containerEl)
+			.setName('Use AI for tag suggestions')
+			.setDesc('Enable AI-powered semantic tag matching with the language model configured below')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useLLM)
+				.onChange(async (value) => {
+					this.plugin.settings.useLLM = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('AI titles')
+			.setDesc('Let the language model write a concise title instead of the first line or the page title')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.llmTitles)
+				.onChange(async (value) => {
+					this.plugin.settings.llmTitles = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('AI summary')
+			.setDesc('Add a short summary as a callout above the content and as the summary frontmatter field')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.llmSummary)
+				.onChange(async (value) => {
+					this.plugin.settings.llmSummary = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('AI key points')
+			.setDesc('Add a bullet list of key points to the summary callout')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.llmKeyPoints)
+				.onChange(async (value) => {
+					this.plugin.settings.llmKeyPoints = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addLLMSettings(containerEl);
+
+		containerEl.createEl('h3', { text: 'Templates' });
+
+		containerEl.createEl('p', {
+			text: `Variables: ${TEMPLATE_VARIABLES.map(v => `{{${v}}}`).join(', ')}. Frontmatter lines whose whole value is an empty variable are left out.`,
+			cls: 'setting-item-description'
+		});
+
+		this.addTemplateSettings(containerEl, 'text', 'Text note');
+		this.addTemplateSettings(containerEl, 'url', 'Web clip');
 
 		containerEl.createEl('h3', { text: 'Web Clipping Settings' });
 
+		new Setting(containerEl)
+			.setName('Parallel downloads for URL lists')
+			.setDesc('How many pages are fetched at once when the clipboard holds a list of links')
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setValue(this.plugin.settings.batchConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.batchConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Site-specific extractors')
+			.setDesc(`Clip ${SITE_EXTRACTORS.map(extractor => extractor.name).join(', ')} pages with dedicated extractors that add authors, threads and extra properties`)
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useSiteExtractors)
+				.onChange(async (value) => {
+					this.plugin.settings.useSiteExtractors = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Extract main content')
+			.setDesc('Keep only the article body of web pages and drop navigation, banners, sidebars, footers and related links')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.extractMainContent)
+				.onChange(async (value) => {
+					this.plugin.settings.extractMainContent = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Download images')
-			.setDesc('Download images from web pages to local storage (uses Obsidian\'s native attachment folder setting)')
+			.setDesc('Download images from web pages to local storage (uses Obsidian\'s native attachment folder setting). With main content extraction, only images from the article are downloaded')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.downloadImages)
 				.onChange(async (value) => {
@@ -671,5 +1229,390 @@ class ClipboardToNoteSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Image folder per note')
+			.setDesc('Save the images of a clip in a subfolder named after the note, inside the attachment folder, instead of prefixing their names')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.imageSubfolder)
+				.onChange(async (value) => {
+					this.plugin.settings.imageSubfolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Parallel image downloads')
+			.setDesc('How many images of a page are downloaded at once')
+			.addSlider(slider => slider
+				.setLimits(1, 8, 1)
+				.setValue(this.plugin.settings.imageConcurrency)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.imageConcurrency = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum image size (MB)')
+			.setDesc('Larger images keep their web link instead of being downloaded (0 = no limit)')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.maxImageSize))
+				.onChange(async (value) => {
+					const size = parseFloat(value);
+					if (!isNaN(size) && size >= 0) {
+						this.plugin.settings.maxImageSize = size;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum image size (pixels)')
+			.setDesc('Images narrower or lower than this are treated as icons or tracking pixels and left out (0 = keep all)')
+			.addText(text => text
+				.setValue(String(this.plugin.settings.minImageDimension))
+				.onChange(async (value) => {
+					const size = parseInt(value, 10);
+					if (!isNaN(size) && size >= 0) {
+						this.plugin.settings.minImageDimension = size;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive pages')
+			.setDesc('Save a self-contained HTML snapshot of each clipped web page (stylesheets and images inlined) next to the note, linked from its frontmatter with the fetch time and a hash of the clipped content')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.archivePages)
+				.onChange(async (value) => {
+					this.plugin.settings.archivePages = value;
+					await this.plugin.saveSettings();
+				}));
+
+	}
+
+	addLLMSettings(containerEl: HTMLElement): void {
+		const llm = this.plugin.settings.llm;
+
+		new Setting(containerEl)
+			.setName('Preset')
+			.setDesc('Fill in provider, base URL and model for a known service. Local servers (Ollama, LM Studio, llama.cpp) need no API key')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'Choose a preset...');
+				for (const key of Object.keys(LLM_PRESETS)) {
+					dropdown.addOption(key, LLM_PRESETS[key].name);
+				}
+				dropdown.onChange(async (value) => {
+					const preset = LLM_PRESETS[value];
+					if (!preset) return;
+					llm.provider = preset.provider;
+					llm.baseUrl = preset.baseUrl;
+					llm.model = preset.model;
+					await this.plugin.saveSettings();
+					this.display();
+				});
+			});
+
+		new Setting(containerEl)
+			.setName('API format')
+			.setDesc('OpenAI-compatible chat completions or the Anthropic messages API')
+			.addDropdown(dropdown => dropdown
+				.addOption('openai', 'OpenAI-compatible')
+				.addOption('anthropic', 'Anthropic')
+				.setValue(llm.provider)
+				.onChange(async (value) => {
+					llm.provider = value as LLMSettings['provider'];
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('API endpoint without the /chat/completions or /messages path')
+			.addText(text => text
+				.setPlaceholder('https://api.openai.com/v1')
+				.setValue(llm.baseUrl)
+				.onChange(async (value) => {
+					llm.baseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API key')
+			.setDesc('Required for hosted providers')
+			.addText(text => text
+				.setPlaceholder('sk-...')
+				.setValue(llm.apiKey)
+				.onChange(async (value) => {
+					llm.apiKey = value.trim();
+					await this.plugin.saveSettings();
+				})
+				.inputEl.setAttribute('type', 'password'));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.addText(text => text
+				.setPlaceholder('gpt-4o-mini')
+				.setValue(llm.model)
+				.onChange(async (value) => {
+					llm.model = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Temperature')
+			.addSlider(slider => slider
+				.setLimits(0, 1, 0.1)
+				.setValue(llm.temperature)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					llm.temperature = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Timeout (seconds)')
+			.addText(text => text
+				.setValue(String(llm.timeout))
+				.onChange(async (value) => {
+					const timeout = parseInt(value, 10);
+					if (!isNaN(timeout) && timeout > 0) {
+						llm.timeout = timeout;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Content token budget')
+			.setDesc('Note content is truncated to roughly this many tokens before it is sent to the model')
+			.addText(text => text
+				.setValue(String(llm.maxInputTokens))
+				.onChange(async (value) => {
+					const tokens = parseInt(value, 10);
+					if (!isNaN(tokens) && tokens > 0) {
+						llm.maxInputTokens = tokens;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Test connection')
+			.setDesc('Send a short request with the settings above')
+			.addButton(button => button
+				.setButtonText('Test connection')
+				.onClick(async () => {
+					button.setDisabled(true);
+					button.setButtonText('Testing...');
+					try {
+						const reply = await this.plugin.pipeline.testLLMConnection();
+						new Notice(`Connection successful. ${llm.model} replied: ${reply.substring(0, 100)}`);
+					} catch (error) {
+						console.error('LLM connection test failed:', error);
+						new Notice(`Connection failed: ${error.message}`);
+					} finally {
+						button.setDisabled(false);
+						button.setButtonText('Test connection');
+					}
+				}));
+	}
+
+	addRoutingSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Routing Rules' });
+		containerEl.createEl('p', {
+			text: 'Rules are checked from top to bottom. The first enabled rule that matches picks the folder and adds its tags; without a match the inbox folder is used. Patterns accept comma-separated alternatives, except URL regex.',
+			cls: 'setting-item-description'
+		});
+
+		const rules = this.plugin.settings.routingRules;
+
+		rules.forEach((rule, index) => {
+			const ruleEl = containerEl.createDiv({ cls: 'clipboard-to-note-rule' });
+
+			new Setting(ruleEl)
+				.setName(describeRule(rule, index))
+				.addText(text => text
+					.setPlaceholder('Rule name')
+					.setValue(rule.name)
+					.onChange(async (value) => {
+						rule.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addToggle(toggle => toggle
+					.setTooltip('Enabled')
+					.setValue(rule.enabled)
+					.onChange(async (value) => {
+						rule.enabled = value;
+						await this.plugin.saveSettings();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						if (index === 0) return;
+						rules.splice(index - 1, 0, rules.splice(index, 1)[0]);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === rules.length - 1)
+					.onClick(async () => {
+						if (index === rules.length - 1) return;
+						rules.splice(index + 1, 0, rules.splice(index, 1)[0]);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete rule')
+					.onClick(async () => {
+						rules.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+
+			new Setting(ruleEl)
+				.setDesc('Match')
+				.addDropdown(dropdown => {
+					for (const matchType of Object.keys(MATCH_TYPE_LABELS) as RoutingMatchType[]) {
+						dropdown.addOption(matchType, MATCH_TYPE_LABELS[matchType]);
+					}
+					dropdown
+						.setValue(rule.matchType)
+						.onChange(async (value) => {
+							rule.matchType = value as RoutingMatchType;
+							await this.plugin.saveSettings();
+						});
+				})
+				.addText(text => text
+					.setPlaceholder('arxiv.org, *.github.com | ^https://.*\\.pdf$ | research | text, url, image')
+					.setValue(rule.pattern)
+					.onChange(async (value) => {
+						rule.pattern = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(ruleEl)
+				.setDesc('Then')
+				.addText(text => text
+					.setPlaceholder('Folder')
+					.setValue(rule.folder)
+					.onChange(async (value) => {
+						rule.folder = value.trim();
+						await this.plugin.saveSettings();
+					}))
+				.addText(text => text
+					.setPlaceholder('Extra tags (comma-separated)')
+					.setValue(rule.tags.join(', '))
+					.onChange(async (value) => {
+						rule.tags = value.split(',').map(t => t.trim().replace(/^#/, '')).filter(t => t.length > 0);
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add rule')
+				.onClick(async () => {
+					rules.push(createRoutingRule());
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+	}
+
+	// Bookmarklet that sends the current browser page and selection through the obsidian:// handler
+	addBookmarkletSettings(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Bookmarklet' });
+		containerEl.createEl('p', {
+			text: 'Add a bookmark with the code below as its URL. Clicking it on a web page clips the page into this vault, with the selected text as a highlight.',
+			cls: 'setting-item-description'
+		});
+
+		const bookmarklet = () => buildBookmarklet({
+			vault: this.app.vault.getName(),
+			tags: this.plugin.settings.bookmarkletTags,
+			folder: this.plugin.settings.bookmarkletFolder
+		});
+		let codeEl: HTMLTextAreaElement;
+
+		new Setting(containerEl)
+			.setName('Bookmarklet tags')
+			.setDesc('Comma-separated tags added to every page clipped with the bookmarklet')
+			.addText(text => text
+				.setPlaceholder('reading, web')
+				.setValue(this.plugin.settings.bookmarkletTags)
+				.onChange(async (value) => {
+					this.plugin.settings.bookmarkletTags = value;
+					await this.plugin.saveSettings();
+					codeEl.value = bookmarklet();
+				}));
+
+		new Setting(containerEl)
+			.setName('Bookmarklet folder')
+			.setDesc('Folder for pages clipped with the bookmarklet. Leave empty to use the routing rules and inbox folder')
+			.addText(text => text
+				.setPlaceholder('Inbox/Web')
+				.setValue(this.plugin.settings.bookmarkletFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.bookmarkletFolder = value;
+					await this.plugin.saveSettings();
+					codeEl.value = bookmarklet();
+				}));
+
+		new Setting(containerEl)
+			.setName('Bookmarklet code')
+			.setDesc('Updated as the tags and folder above change')
+			.addTextArea(text => {
+				text.setValue(bookmarklet());
+				text.inputEl.readOnly = true;
+				text.inputEl.rows = 4;
+				text.inputEl.addClass('clipboard-to-note-template');
+				codeEl = text.inputEl;
+			})
+			.addExtraButton(button => button
+				.setIcon('copy')
+				.setTooltip('Copy bookmarklet')
+				.onClick(async () => {
+					await navigator.clipboard.writeText(bookmarklet());
+					new Notice('Bookmarklet copied');
+				}));
+	}
+
+	addTemplateSettings(containerEl: HTMLElement, kind: TemplateKind, label: string): void {
+		const fileKey = kind === 'url' ? 'urlTemplateFile' : 'textTemplateFile';
+		const templateKey = kind === 'url' ? 'urlTemplate' : 'textTemplate';
+		const defaultTemplate = kind === 'url' ? DEFAULT_URL_TEMPLATE : DEFAULT_TEXT_TEMPLATE;
+
+		new Setting(containerEl)
+			.setName(`${label} template file`)
+			.setDesc('Path of a template note in the vault. Overrides the template below when set')
+			.addText(text => text
+				.setPlaceholder('Templates/Clip.md')
+				.setValue(this.plugin.settings[fileKey])
+				.onChange(async (value) => {
+					this.plugin.settings[fileKey] = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(`${label} template`)
+			.setDesc('Template used when no template file is set')
+			.addTextArea(text => {
+				text
+					.setValue(this.plugin.settings[templateKey])
+					.onChange(async (value) => {
+						this.plugin.settings[templateKey] = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 10;
+				text.inputEl.addClass('clipboard-to-note-template');
+			})
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip('Restore default template')
+				.onClick(async () => {
+					this.plugin.settings[templateKey] = defaultTemplate;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 }
@@ -0,0 +1,51 @@
+// What the clip pipeline needs from its host: file access in a vault, HTTP, an HTML parser
+// and a way to tell the user about progress. The plugin implements these with Obsidian's
+// vault and requestUrl (obsidian-adapter.ts), the command line tool with the file system,
+// fetch and jsdom (node-adapter.ts).
+import { PdfJsLib } from './documents';
+import { HttpRequest, HttpResponse } from './llm';
+
+export interface FetchResponse extends HttpResponse {
+	headers: Record<string, string>;
+	arrayBuffer: ArrayBuffer;
+}
+
+// Resolves with any status; errors are only thrown when no response arrives
+export type FetchClient = (request: HttpRequest) => Promise<FetchResponse>;
+
+export interface VaultFile {
+	path: string;
+	extension: string;
+	size: number;
+	mtime: number;
+}
+
+// Paths are vault-relative and normalized (see paths.ts)
+export interface VaultAdapter {
+	exists(path: string): boolean;
+	read(path: string): Promise<string>;
+	readBinary(path: string): Promise<ArrayBuffer>;
+	create(path: string, content: string): Promise<void>;
+	modify(path: string, content: string): Promise<void>;
+	createBinary(path: string, data: ArrayBuffer): Promise<void>;
+	createFolder(path: string): Promise<void>;
+	getFiles(): VaultFile[];
+	getFolders(): string[];
+	// Tags without "#" and the number of notes using each
+	getTagCounts(): Map<string, number>;
+	// Properties of a note's frontmatter, undefined without one
+	getFrontmatter(path: string): Record<string, unknown> | undefined;
+	// Where the vault's "Default location for new attachments" puts a new file for the note
+	getAvailablePathForAttachment(filename: string, notePath: string): Promise<string>;
+	// Link following the vault's "Use [[Wikilinks]]" and "New link format" settings
+	generateMarkdownLink(path: string, sourcePath: string, alias: string): string;
+}
+
+export interface ClipEnvironment {
+	vault: VaultAdapter;
+	fetch: FetchClient;
+	parseHtml: (html: string) => Document;
+	notify: (message: string) => void;
+	// PDF text extraction is skipped without PDF.js; the PDF is still saved and embedded
+	loadPdfJs?: () => Promise<PdfJsLib>;
+}
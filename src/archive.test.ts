@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { buildArchive, readArchiveMarkdown } from './archive';
+import { parseHtml } from './fixtures';
+
+const PAGE = '<html><head><script>alert(1)</script></head><body><p>Text</p></body></html>';
+
+test('the clipped markdown is kept in the archive as it was', async () => {
+	const markdown = '# Title\n\n```html\n<script>x()</script>\n```\n\n<\\/script> &   "quoted"\n';
+	const html = await buildArchive(PAGE, 'https://example.com/', { parseHtml, fetchAsset: async () => undefined, concurrency: 1, markdown });
+	const doc = parseHtml(html);
+	assert.equal(readArchiveMarkdown(doc), markdown);
+	assert.equal(doc.querySelectorAll('script').length, 1);
+	assert.equal(doc.querySelector('p')?.textContent, 'Text');
+});
+
+test('archives without markdown have none to read', async () => {
+	const html = await buildArchive(PAGE, 'https://example.com/', { parseHtml, fetchAsset: async () => undefined, concurrency: 1 });
+	assert.equal(readArchiveMarkdown(parseHtml(html)), undefined);
+});
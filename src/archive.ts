@@ -0,0 +1,260 @@
+// Offline snapshot of a clipped page: one HTML file with its stylesheets, images, fonts and
+// icons inlined as data URIs, scripts removed and links made absolute, so it still opens
+// when the page has changed or is gone
+import { resolveImageSources } from './images';
+import { getBaseUrl } from './links';
+import { resolveUrl } from './url';
+
+export interface ArchiveAsset {
+	data: ArrayBuffer;
+	contentType?: string;
+}
+
+export interface ArchiveOptions {
+	parseHtml: (html: string) => Document;
+	// Resolves with the asset, or undefined when it cannot be fetched or is too large
+	fetchAsset: (url: string) => Promise<ArchiveAsset | undefined>;
+	// Assets fetched at once
+	concurrency: number;
+	// Markdown the page was clipped as, kept in the archive for comparing a later re-clip with
+	markdown?: string;
+}
+
+// Script element holding the clipped markdown as a JSON string
+const MARKDOWN_ID = 'clipboard-to-note-markdown';
+
+// Nested @import rules that are followed; deeper ones are left as links
+const MAX_IMPORT_DEPTH = 3;
+
+const REMOVE_SELECTORS = [
+	'script',
+	'noscript',
+	'base',
+	'meta[http-equiv]',
+	'link[rel~="preload"]',
+	'link[rel~="modulepreload"]',
+	'link[rel~="prefetch"]',
+	'link[rel~="preconnect"]',
+	'link[rel~="dns-prefetch"]',
+	'link[rel~="manifest"]'
+].join(', ');
+
+export async function buildArchive(html: string, pageUrl: string, options: ArchiveOptions): Promise<string> {
+	const doc = options.parseHtml(html);
+	const baseUrl = getBaseUrl(doc, pageUrl);
+
+	// At most `concurrency` fetches run at once; a finished one hands its slot to the next waiting
+	let active = 0;
+	const waiting: (() => void)[] = [];
+	const fetchAsset = async (url: string): Promise<ArchiveAsset | undefined> => {
+		if (active < Math.max(1, options.concurrency)) {
+			active++;
+		} else {
+			await new Promise<void>(resolve => waiting.push(resolve));
+		}
+		try {
+			return await options.fetchAsset(url);
+		} catch (error) {
+			return undefined;
+		} finally {
+			const next = waiting.shift();
+			if (next) next(); else active--;
+		}
+	};
+
+	// Each asset is fetched once, however often the page and its stylesheets refer to it
+	const dataUris = new Map<string, Promise<string | undefined>>();
+	const inline = (url: string) => {
+		if (!dataUris.has(url)) {
+			dataUris.set(url, fetchAsset(url).then(asset => asset ? toDataUri(asset, url) : undefined));
+		}
+		return dataUris.get(url)!;
+	};
+	const fetchCss = async (url: string) => {
+		const asset = await fetchAsset(url);
+		return asset ? new TextDecoder().decode(asset.data) : undefined;
+	};
+
+	for (const element of Array.from(doc.querySelectorAll(REMOVE_SELECTORS))) {
+		element.remove();
+	}
+	// Inline event handlers would run without their scripts
+	for (const element of Array.from(doc.querySelectorAll('*'))) {
+		for (const attribute of Array.from(element.attributes)) {
+			if (/^on/i.test(attribute.name)) element.removeAttribute(attribute.name);
+		}
+	}
+
+	resolveImageSources(doc.documentElement, baseUrl);
+
+	const tasks: Promise<void>[] = [];
+
+	for (const link of Array.from(doc.querySelectorAll('link[rel~="stylesheet"][href]'))) {
+		const href = resolveUrl(link.getAttribute('href') || '', baseUrl);
+		if (!href) continue;
+		tasks.push((async () => {
+			const css = await fetchCss(href);
+			if (css === undefined) {
+				link.setAttribute('href', href);
+				return;
+			}
+			const style = doc.createElement('style');
+			const media = link.getAttribute('media');
+			if (media) style.setAttribute('media', media);
+			style.textContent = await inlineCss(css, href, inline, fetchCss, 0);
+			link.replaceWith(style);
+		})());
+	}
+
+	for (const style of Array.from(doc.querySelectorAll('style'))) {
+		tasks.push((async () => {
+			style.textContent = await inlineCss(style.textContent || '', baseUrl, inline, fetchCss, 0);
+		})());
+	}
+
+	for (const element of Array.from(doc.querySelectorAll('[style*="url("]'))) {
+		tasks.push((async () => {
+			element.setAttribute('style', await inlineCssUrls(element.getAttribute('style') || '', baseUrl, inline));
+		})());
+	}
+
+	const sources: [Element, string][] = [
+		...Array.from(doc.querySelectorAll('img[src]')).map(img => [img, 'src'] as [Element, string]),
+		...Array.from(doc.querySelectorAll('video[poster]')).map(video => [video, 'poster'] as [Element, string]),
+		...Array.from(doc.querySelectorAll('link[rel~="icon"][href]')).map(icon => [icon, 'href'] as [Element, string])
+	];
+	for (const [element, attribute] of sources) {
+		const url = resolveUrl(element.getAttribute(attribute) || '', baseUrl);
+		if (!url || !/^https?:/.test(url)) continue;
+		tasks.push((async () => {
+			element.setAttribute(attribute, await inline(url) || url);
+		})());
+	}
+
+	await Promise.all(tasks);
+
+	// Links, forms and frames keep pointing at the live site
+	for (const [selector, attribute] of [['a[href]', 'href'], ['form[action]', 'action'], ['iframe[src]', 'src'], ['source[src]', 'src'], ['video[src]', 'src'], ['audio[src]', 'src']]) {
+		for (const element of Array.from(doc.querySelectorAll(selector))) {
+			const value = element.getAttribute(attribute) || '';
+			if (value.startsWith('#')) continue;
+			const absolute = resolveUrl(value, baseUrl);
+			if (absolute) element.setAttribute(attribute, absolute);
+		}
+	}
+
+	const head = doc.head;
+	for (const charset of Array.from(head.querySelectorAll('meta[charset]'))) {
+		charset.remove();
+	}
+	const charset = doc.createElement('meta');
+	charset.setAttribute('charset', 'utf-8');
+	head.insertBefore(charset, head.firstChild);
+
+	if (options.markdown !== undefined) {
+		const markdown = doc.createElement('script');
+		markdown.setAttribute('type', 'application/json');
+		markdown.id = MARKDOWN_ID;
+		// "<" escaped, so "</script>" in the markdown cannot end the element
+		markdown.textContent = JSON.stringify(options.markdown).replace(/</g, '\\u003c');
+		head.appendChild(markdown);
+	}
+
+	return `<!DOCTYPE html>\n<!-- Archived from ${pageUrl.replace(/--/g, '%2D%2D')} -->\n${doc.documentElement.outerHTML}\n`;
+}
+
+// Markdown stored by buildArchive, undefined for archives without it
+export function readArchiveMarkdown(doc: Document): string | undefined {
+	const element = doc.getElementById(MARKDOWN_ID);
+	if (!element) return undefined;
+	try {
+		const markdown = JSON.parse(element.textContent || '');
+		return typeof markdown === 'string' ? markdown : undefined;
+	} catch (error) {
+		return undefined;
+	}
+}
+
+// Stylesheet with its @import rules replaced by the imported stylesheets and url() references by data URIs
+async function inlineCss(
+	css: string,
+	cssUrl: string,
+	inline: (url: string) => Promise<string | undefined>,
+	fetchCss: (url: string) => Promise<string | undefined>,
+	depth: number
+): Promise<string> {
+	const importRule = /@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?([^;]*);/g;
+	const imports: { rule: string; replacement: string }[] = [];
+	let match;
+	while ((match = importRule.exec(css)) !== null) {
+		const url = resolveUrl(match[2], cssUrl);
+		if (!url || depth >= MAX_IMPORT_DEPTH) continue;
+		const imported = await fetchCss(url);
+		if (imported === undefined) continue;
+		const media = match[3].trim();
+		const content = await inlineCss(imported, url, inline, fetchCss, depth + 1);
+		imports.push({ rule: match[0], replacement: media ? `@media ${media} {\n${content}\n}` : content });
+	}
+
+	let result = css;
+	for (const { rule, replacement } of imports) {
+		result = result.replace(rule, () => replacement);
+	}
+	return await inlineCssUrls(result, cssUrl, inline);
+}
+
+async function inlineCssUrls(css: string, cssUrl: string, inline: (url: string) => Promise<string | undefined>): Promise<string> {
+	const urlPattern = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g;
+	const references = new Map<string, Promise<string | undefined>>();
+	let match;
+	while ((match = urlPattern.exec(css)) !== null) {
+		const reference = match[2].trim();
+		if (reference.startsWith('data:') || reference.startsWith('#') || references.has(reference)) continue;
+		const url = resolveUrl(reference, cssUrl);
+		references.set(reference, url && /^https?:/.test(url) ? inline(url).then(dataUri => dataUri || url) : Promise.resolve(url));
+	}
+
+	const resolved = new Map<string, string | undefined>();
+	for (const [reference, promise] of Array.from(references.entries())) {
+		resolved.set(reference, await promise);
+	}
+	return css.replace(urlPattern, (whole, quote: string, reference: string) => {
+		const replacement = resolved.get(reference.trim());
+		return replacement ? `url("${replacement}")` : whole;
+	});
+}
+
+function toDataUri(asset: ArchiveAsset, url: string): string {
+	const contentType = (asset.contentType || guessContentType(url)).split(';')[0].trim();
+	return `data:${contentType};base64,${toBase64(asset.data)}`;
+}
+
+function guessContentType(url: string): string {
+	const extension = (url.split(/[?#]/)[0].split('.').pop() || '').toLowerCase();
+	const types: Record<string, string> = {
+		css: 'text/css',
+		png: 'image/png',
+		jpg: 'image/jpeg',
+		jpeg: 'image/jpeg',
+		gif: 'image/gif',
+		webp: 'image/webp',
+		avif: 'image/avif',
+		svg: 'image/svg+xml',
+		ico: 'image/x-icon',
+		woff: 'font/woff',
+		woff2: 'font/woff2',
+		ttf: 'font/ttf',
+		otf: 'font/otf'
+	};
+	return types[extension] || 'application/octet-stream';
+}
+
+function toBase64(data: ArrayBuffer): string {
+	const bytes = new Uint8Array(data);
+	let binary = '';
+	// Chunks keep String.fromCharCode below the argument limit
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + 0x8000)));
+	}
+	return btoa(binary);
+}
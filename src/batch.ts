@@ -0,0 +1,137 @@
+// Batch clipping of several URLs: detection of URL lists and a progress modal
+// with per-URL status and cancel
+import { App, Modal, Setting } from 'obsidian';
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface BatchItem {
+	url: string;
+	status: BatchStatus;
+	// Created (or already existing) note
+	path?: string;
+	title?: string;
+	// Failure reason or why the URL was skipped
+	message?: string;
+}
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+	pending: 'Waiting',
+	running: 'Clipping...',
+	done: 'Created',
+	skipped: 'Skipped',
+	failed: 'Failed'
+};
+
+const MARKDOWN_LINK = /\[[^\]]*\]\((https?:\/\/[^\s)]+(?:\([^\s)]*\)[^\s)]*)*)[^)]*\)/g;
+const BARE_URL = /https?:\/\/[^\s<>"')\]]+/g;
+
+// Two or more URLs, one per line, optionally as list items or markdown links.
+// Returns null when the text is prose that merely contains links.
+export function extractUrlList(text: string): string[] | null {
+	const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+	if (lines.length < 2) return null;
+
+	const urls: string[] = [];
+	for (const line of lines) {
+		const body = line.replace(/^([-*+•]|\d+[.)])\s+/, '').replace(/^\[[ xX]\]\s+/, '');
+
+		const links = Array.from(body.matchAll(MARKDOWN_LINK)).map(match => match[1]);
+		const remainder = body.replace(MARKDOWN_LINK, '').trim();
+		const bare = remainder.match(BARE_URL) || [];
+
+		// A line may carry a short label next to its URL ("Paper: https://..."), not a paragraph
+		const text = remainder.replace(BARE_URL, '').trim();
+		if (links.length + bare.length !== 1 || text.length > 60) {
+			return null;
+		}
+		urls.push(...links, ...bare);
+	}
+
+	// Same URL listed twice is clipped once
+	const unique = urls.filter((url, index) => urls.indexOf(url) === index);
+	return unique.length >= 2 ? unique : null;
+}
+
+export class BatchProgressModal extends Modal {
+	items: BatchItem[];
+	cancelled = false;
+	finished = false;
+	summaryEl: HTMLElement;
+	listEl: HTMLElement;
+	rows = new Map<BatchItem, HTMLElement>();
+	cancelButton: HTMLButtonElement;
+
+	constructor(app: App, items: BatchItem[]) {
+		super(app);
+		this.items = items;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle(`Clipping ${this.items.length} URLs`);
+		this.modalEl.addClass('clipboard-to-note-batch');
+
+		this.summaryEl = contentEl.createDiv({ cls: 'clipboard-to-note-batch-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'clipboard-to-note-batch-list' });
+
+		for (const item of this.items) {
+			const row = this.listEl.createDiv({ cls: 'clipboard-to-note-batch-item' });
+			this.rows.set(item, row);
+			this.update(item);
+		}
+
+		new Setting(contentEl)
+			.addButton(button => {
+				this.cancelButton = button.buttonEl;
+				button
+					.setButtonText('Cancel')
+					.onClick(() => {
+						if (this.finished) {
+							this.close();
+							return;
+						}
+						this.cancelled = true;
+						button.setButtonText('Cancelling...').setDisabled(true);
+					});
+			});
+
+		this.updateSummary();
+	}
+
+	onClose() {
+		// Closing the modal does not stop the batch; it keeps running in the background
+		this.contentEl.empty();
+		this.rows.clear();
+	}
+
+	update(item: BatchItem) {
+		const row = this.rows.get(item);
+		if (!row) return;
+
+		row.empty();
+		row.setAttr('data-status', item.status);
+		row.createSpan({ cls: 'clipboard-to-note-batch-status', text: STATUS_LABELS[item.status] });
+		row.createSpan({ cls: 'clipboard-to-note-batch-url', text: item.title || item.url });
+		if (item.message) {
+			row.createDiv({ cls: 'clipboard-to-note-batch-message', text: item.message });
+		}
+		this.updateSummary();
+	}
+
+	finish() {
+		this.finished = true;
+		if (this.cancelButton) {
+			this.cancelButton.setText('Close');
+			this.cancelButton.disabled = false;
+		}
+		this.updateSummary();
+	}
+
+	updateSummary() {
+		if (!this.summaryEl) return;
+		const count = (status: BatchStatus) => this.items.filter(item => item.status === status).length;
+		const completed = this.items.length - count('pending') - count('running');
+		const state = this.finished ? (this.cancelled ? 'Cancelled' : 'Finished') : 'Progress';
+		this.summaryEl.setText(`${state}: ${completed}/${this.items.length} (${count('done')} created, ${count('skipped')} skipped, ${count('failed')} failed)`);
+	}
+}
@@ -0,0 +1,44 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { classifyText } from './classify';
+
+test('an address with commas is not a table', () => {
+	const address = 'Jane Doe, Acme Inc.\n12 Main Street, Suite 4\nSpringfield, IL 62701';
+	assert.equal(classifyText(address).kind, 'prose');
+	assert.equal(classifyText(`${address}\nUnited States, Earth`).kind, 'prose');
+});
+
+test('comma separated rows with a header or a numeric column are a table', () => {
+	const withHeader = classifyText('Name, Email, City\nAlice, alice@example.com, Paris\nBob, bob@example.com, Berlin\nCarol, carol@example.com, Rome');
+	assert.equal(withHeader.kind, 'table');
+	assert.equal(withHeader.title, 'Table: Name, Email, City');
+
+	const numeric = classifyText('2024-01-01;Rent;1200\n2024-01-03;Groceries;85,20\n2024-01-09;Train;42\n2024-01-15;Books;19,99');
+	assert.equal(numeric.kind, 'table');
+	assert.match(numeric.content, /^\| 2024-01-01 \| Rent \| 1200 \|\n\| --- \| --- \| --- \|/);
+});
+
+test('tab separated cells are a table from two rows on', () => {
+	assert.equal(classifyText('Item\tPrice\nCoffee\t3.50').kind, 'table');
+});
+
+test('headings above lists are a list, not YAML', () => {
+	const result = classifyText('Ingredients:\n  - eggs\n  - flour\nSteps:\n  - mix');
+	assert.equal(result.kind, 'list');
+	assert.equal(result.content, 'Ingredients:\n- eggs\n- flour\nSteps:\n- mix');
+});
+
+test('YAML with scalar values is fenced', () => {
+	const yaml = 'name: clipper\nversion: 1.2.0\ndependencies:\n  - turndown\n  - jsdom\nscripts:\n  build: node esbuild.config.mjs\n  test: node test.mjs';
+	const result = classifyText(yaml);
+	assert.equal(result.kind, 'yaml');
+	assert.equal(result.content, `\`\`\`yaml\n${yaml}\n\`\`\``);
+
+	assert.equal(classifyText('services:\n  - name: web\n    image: nginx\n    ports:\n      - 80\n  - name: db\n    image: postgres').kind, 'yaml');
+	assert.equal(classifyText('name: clipper\ndescription: |\n  Note: a colon in text\nitems:\n  - one\n  - two').kind, 'yaml');
+});
+
+test('indentation YAML would reject is not YAML', () => {
+	assert.notEqual(classifyText('name: clipper\ndependencies:\n    - turndown\n  - jsdom\nversion: 1').kind, 'yaml');
+	assert.notEqual(classifyText('Note: this is: not yaml\nItems:\n  - one\n  - two').kind, 'yaml');
+});
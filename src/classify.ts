@@ -0,0 +1,537 @@
+// Classification of pasted plain text: source code (with a language guess), JSON and YAML,
+// spreadsheet cells (TSV/CSV) and lists from other apps, each converted to its markdown form
+import { fenceCode } from './documents';
+
+export type TextKind = 'code' | 'json' | 'yaml' | 'table' | 'list' | 'prose';
+
+export interface ClassifiedText {
+	kind: TextKind;
+	// Language of code, e.g. "python"; empty when it could not be told
+	language?: string;
+	// Markdown for the note body
+	content: string;
+	// Title derived from the structure (a function name, the column headers), if any
+	title?: string;
+	// Tags describing the kind, e.g. code/python, data/json, table
+	tags: string[];
+}
+
+interface LanguageSignature {
+	name: string;
+	label: string;
+	// Each matching pattern adds its weight
+	patterns: [RegExp, number][];
+	// Name of the first definition, used for the title
+	definition?: RegExp;
+}
+
+// Patterns that are typical for one language; shared syntax (braces, semicolons) is left to the code score
+const LANGUAGES: LanguageSignature[] = [
+	{
+		name: 'python', label: 'Python',
+		patterns: [
+			[/^\s*def \w+\s*\(.*\)\s*(->\s*[\w[\], .]+)?:\s*$/m, 5],
+			[/^\s*class \w+(\(.*\))?:\s*$/m, 4],
+			[/^\s*(from [\w.]+ )?import [\w., ]+$/m, 2],
+			[/^\s*(if|elif|for|while|with|try|except|else)\b.*:\s*$/m, 2],
+			[/\bself\.\w+/, 2],
+			[/^\s*print\(/m, 1],
+			[/\b(None|True|False)\b/, 1],
+			[/^\s*@\w+/m, 1]
+		],
+		definition: /^\s*(?:async\s+)?(?:def|class)\s+(\w+)/m
+	},
+	{
+		name: 'typescript', label: 'TypeScript',
+		patterns: [
+			[/^\s*(export\s+)?(interface|type)\s+\w+(<.*>)?\s*(=|\{|extends)/m, 5],
+			[/\b(const|let|var)\s+\w+\s*:\s*[\w<>[\]|]+\s*=/, 4],
+			[/\)\s*:\s*(Promise<[^>]+>|void|string|number|boolean)\s*(\{|=>)/, 4],
+			[/\b(private|public|readonly)\s+\w+\s*:/, 3],
+			[/^\s*import .* from ['"].+['"];?$/m, 1]
+		],
+		definition: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function|class|interface|type)\s+(\w+)/m
+	},
+	{
+		name: 'javascript', label: 'JavaScript',
+		patterns: [
+			[/^\s*(const|let|var)\s+\w+\s*=/m, 2],
+			[/\bfunction\s*\w*\s*\(/, 3],
+			[/=>\s*[{(]?/, 2],
+			[/\b(console\.log|document\.|window\.|require\()/, 3],
+			[/^\s*import .* from ['"].+['"];?$/m, 2],
+			[/^\s*(module\.)?exports?\b/m, 2]
+		],
+		definition: /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?(?:function|class)\s+(\w+)|^\s*(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s*)?(?:function|\()/m
+	},
+	{
+		name: 'java', label: 'Java',
+		patterns: [
+			[/\bpublic\s+(static\s+)?(class|void|final|interface)\b/, 4],
+			[/\bSystem\.out\.print/, 5],
+			[/^\s*import java\./m, 5],
+			[/^\s*package [\w.]+;/m, 4],
+			[/\b(private|protected|public)\s+[\w<>[\]]+\s+\w+\s*[(;=]/, 2],
+			[/@Override\b/, 3]
+		],
+		definition: /\b(?:class|interface|enum)\s+(\w+)/
+	},
+	{
+		name: 'csharp', label: 'C#',
+		patterns: [
+			[/^\s*using System(\.\w+)*;/m, 5],
+			[/^\s*namespace [\w.]+/m, 3],
+			[/\bConsole\.Write/, 5],
+			[/\{\s*get;\s*(set;)?\s*\}/, 4],
+			[/\b(public|private)\s+(async\s+)?(override\s+)?[\w<>]+\s+\w+\s*\(/, 1]
+		],
+		definition: /\b(?:class|interface|struct|record)\s+(\w+)/
+	},
+	{
+		name: 'go', label: 'Go',
+		patterns: [
+			[/^\s*package \w+\s*$/m, 4],
+			[/^\s*func (\(\w+ \*?\w+\) )?\w+\(/m, 5],
+			[/:=/, 2],
+			[/\bfmt\.\w+/, 4],
+			[/\berr != nil\b/, 4]
+		],
+		definition: /^\s*func (?:\(\w+ \*?\w+\) )?(\w+)/m
+	},
+	{
+		name: 'rust', label: 'Rust',
+		patterns: [
+			[/^\s*(pub\s+)?fn \w+(<.*>)?\(/m, 5],
+			[/\blet\s+mut\b/, 4],
+			[/\b(impl|trait)\s+\w+/, 3],
+			[/\w+!\(/, 2],
+			[/^\s*use \w+(::\w+)+/m, 3],
+			[/->\s*(Self|Result<|Option<|&)/, 2]
+		],
+		definition: /^\s*(?:pub\s+)?(?:fn|struct|enum|trait)\s+(\w+)/m
+	},
+	{
+		name: 'cpp', label: 'C++',
+		patterns: [
+			[/^\s*#include\s*<\w+>/m, 3],
+			[/\bstd::\w+/, 5],
+			[/\b(cout|cin)\s*(<<|>>)/, 4],
+			[/\btemplate\s*</, 3],
+			[/^\s*using namespace \w+;/m, 4]
+		],
+		definition: /\b(?:class|struct)\s+(\w+)/
+	},
+	{
+		name: 'c', label: 'C',
+		patterns: [
+			[/^\s*#include\s*[<"][\w/]+\.h[>"]/m, 4],
+			[/\b(printf|malloc|free|sizeof)\s*\(/, 3],
+			[/^\s*(int|void|char|static)\s+\**\w+\s*\([^)]*\)\s*\{?\s*$/m, 2],
+			[/->\w+/, 1]
+		],
+		definition: /^\s*(?:static\s+)?(?:int|void|char|float|double|long|\w+_t)\s+\**(\w+)\s*\(/m
+	},
+	{
+		name: 'php', label: 'PHP',
+		patterns: [
+			[/<\?php/, 8],
+			[/\$\w+\s*=/, 2],
+			[/\$this->/, 4],
+			[/\bfunction\s+\w+\s*\(\s*\$/, 4],
+			[/\becho\s/, 1]
+		],
+		definition: /\b(?:function|class)\s+(\w+)/
+	},
+	{
+		name: 'ruby', label: 'Ruby',
+		patterns: [
+			[/^\s*def \w+[?!]?(\(.*\))?\s*$/m, 4],
+			[/^\s*end\s*$/m, 3],
+			[/^\s*require ['"]/m, 3],
+			[/\bputs\s/, 3],
+			[/\bdo\s*\|\w+(, *\w+)*\|/, 4],
+			[/^\s*attr_(accessor|reader|writer)\b/m, 4]
+		],
+		definition: /^\s*(?:def|class|module)\s+(?:self\.)?(\w+)/m
+	},
+	{
+		name: 'swift', label: 'Swift',
+		patterns: [
+			[/^\s*import (UIKit|SwiftUI|Foundation)\s*$/m, 5],
+			[/\bfunc \w+\(.*\)\s*(->\s*\w+)?\s*\{/, 3],
+			[/\b(guard|if) let\b/, 4],
+			[/\bvar \w+\s*:\s*\w+/, 1]
+		],
+		definition: /\b(?:func|struct|class|enum|protocol)\s+(\w+)/
+	},
+	{
+		name: 'kotlin', label: 'Kotlin',
+		patterns: [
+			[/^\s*fun \w+\(/m, 5],
+			[/\bval \w+\s*[:=]/, 2],
+			[/\bprintln\(/, 2],
+			[/\b(data|sealed) class\b/, 4]
+		],
+		definition: /\b(?:fun|class|object)\s+(\w+)/
+	},
+	{
+		name: 'bash', label: 'Shell',
+		patterns: [
+			[/^#!\/(usr\/)?bin\/(env )?(ba|z)?sh/m, 8],
+			[/^\s*\$ \w+/m, 3],
+			[/^\s*(sudo|apt(-get)?|brew|npm|pip3?|git|cd|ls|mkdir|chmod|export|curl|docker|kubectl) [-\w./~]/m, 3],
+			[/^\s*(if|while) \[\[? .* \]\]?; then/m, 5],
+			[/^\s*(fi|done|esac)\s*$/m, 3],
+			[/\$\{?\w+\}?/, 1],
+			[/ \| (grep|sed|awk|xargs|sort|head|tail) /, 3]
+		]
+	},
+	{
+		name: 'powershell', label: 'PowerShell',
+		patterns: [
+			[/\b(Get|Set|New|Remove|Write)-[A-Z]\w+/, 5],
+			[/\$\w+\s*=\s*/, 1],
+			[/-(eq|ne|lt|gt)\s/, 2]
+		]
+	},
+	{
+		name: 'sql', label: 'SQL',
+		patterns: [
+			[/\bSELECT\b[\s\S]+\bFROM\b/i, 6],
+			[/\b(INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i, 6],
+			[/\bCREATE\s+(TABLE|INDEX|VIEW)\b/i, 6],
+			[/\b(WHERE|GROUP BY|ORDER BY|JOIN|LIMIT)\b/, 2]
+		],
+		definition: /\bCREATE\s+(?:TABLE|VIEW|INDEX)\s+(?:IF NOT EXISTS\s+)?[`"[]?(\w+)/i
+	},
+	{
+		name: 'html', label: 'HTML',
+		patterns: [
+			[/^\s*<!DOCTYPE html>/im, 8],
+			[/<\/(div|span|p|a|body|html|head|ul|li|section|button)>/i, 4],
+			[/<\w+(\s+[\w-]+="[^"]*")+\s*\/?>/, 2]
+		]
+	},
+	{
+		name: 'css', label: 'CSS',
+		patterns: [
+			[/^\s*[.#]?[\w-]+(\s*[,>+~]\s*[.#:]?[\w-]+|\s+[.#:]?[\w-]+|[.#:][\w-]+)*\s*\{\s*$/m, 2],
+			[/^\s*[\w-]+\s*:\s*[^;{}]+;\s*$/m, 2],
+			[/@media\b|@import\b|@keyframes\b/, 4],
+			[/\b\d+(px|em|rem|vh|vw)\b/, 2]
+		]
+	}
+];
+
+// Lines that read like code rather than prose
+const CODE_LINE = /[;{}]\s*$|^\s*[})\]]|^\s*(\/\/|#|--|\/\*|\*)|^\s*(def|class|function|fn|func|fun|return|import|from|if|for|while|const|let|var|public|private|package|using|#include)\b|[=!<>]=|=>|->|::|\w\(.*\)\s*$/;
+const PROSE_LINE = /^[A-ZÄÖÜ][^;{}=<>]*[a-zäöüß][.!?:]["')]?\s*$/;
+
+// Bullets that apps other than markdown editors put in front of list items
+const BULLET = /^(\s*)([•◦▪▫‣∙·●○■□–—*+-])\s+(.*)$/;
+const NUMBERED = /^(\s*)\(?(\d{1,3}|[a-z])[.)]\s+(.*)$/;
+
+// Spreadsheet cells holding a number (amounts, percentages) or a date
+const NUMBER_CELL = /^[-+]?[$€£¥]?\d[\d,.' ]*%?$/;
+const DATE_CELL = /^\d{4}-\d{2}-\d{2}|^\d{1,2}[./]\d{1,2}[./]\d{2,4}$/;
+// "key: value" and "key:" in a YAML mapping, also after a "- " item marker
+const YAML_KEY = /^([\w.-]+|"[^"]*"|'[^']*')\s*:(?:\s+(.*))?$/;
+
+export function classifyText(text: string): ClassifiedText {
+	const trimmed = text.replace(/^\s*\n/, '').replace(/\s+$/, '');
+	if (trimmed === '' || /^\s*(```|~~~)/.test(trimmed)) {
+		return { kind: 'prose', content: trimmed, tags: [] };
+	}
+	return classifyJson(trimmed)
+		|| classifyTable(trimmed)
+		|| classifyCode(trimmed)
+		|| classifyYaml(trimmed)
+		|| classifyList(trimmed);
+}
+
+// Guess the language of a piece of code; empty when no language stands out
+export function detectLanguage(code: string): string {
+	return bestLanguage(code)?.language.name || '';
+}
+
+function bestLanguage(code: string): { language: LanguageSignature; score: number } | undefined {
+	let best: { language: LanguageSignature; score: number } | undefined;
+	for (const language of LANGUAGES) {
+		const score = language.patterns.reduce((sum, [pattern, weight]) => sum + (pattern.test(code) ? weight : 0), 0);
+		if (score >= 3 && (!best || score > best.score)) {
+			best = { language, score };
+		}
+	}
+	return best;
+}
+
+function classifyJson(text: string): ClassifiedText | null {
+	if (!/^[{[]/.test(text) || !/[}\]]$/.test(text)) return null;
+	let value: unknown;
+	try {
+		value = JSON.parse(text);
+	} catch (error) {
+		return null;
+	}
+
+	let title = 'JSON data';
+	if (Array.isArray(value)) {
+		title = `JSON list of ${value.length} ${value.length === 1 ? 'item' : 'items'}`;
+	} else if (value && typeof value === 'object') {
+		const keys = Object.keys(value as Record<string, unknown>);
+		if (keys.length > 0) {
+			title = `JSON with ${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', ...' : ''}`;
+		}
+	}
+	return {
+		kind: 'json',
+		content: fenceCode(JSON.stringify(value, null, 2), 'json'),
+		title,
+		tags: ['data/json']
+	};
+}
+
+// Spreadsheet cells: tab separated, or more than three comma/semicolon separated rows with the same
+// column count that look like data (see isDelimitedData)
+function classifyTable(text: string): ClassifiedText | null {
+	const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+	if (lines.length < 2) return null;
+
+	let rows: string[][] | null = null;
+	// Leading tabs are indentation (code), not empty cells
+	if (lines.every(line => line.trim().includes('\t'))) {
+		rows = lines.map(line => line.split('\t'));
+	} else if (lines.length > 3) {
+		for (const delimiter of [',', ';']) {
+			const parsed = lines.map(line => parseDelimitedLine(line, delimiter));
+			if (parsed.every(row => row.length >= 2)) {
+				rows = parsed;
+				break;
+			}
+		}
+		// Sentences with commas are not a table: cells are short and rows line up
+		if (rows && (rows.some(row => row.some(cell => cell.trim().split(/\s+/).length > 8)) || !isDelimitedData(rows))) {
+			rows = null;
+		}
+	}
+	if (!rows) return null;
+
+	const columns = rows[0].length;
+	if (columns < 2 || !rows.every(row => row.length === columns)) return null;
+
+	const cell = (value: string) => value.trim().replace(/\|/g, '\\|');
+	const header = rows[0].map(cell);
+	const table = [
+		`| ${header.join(' | ')} |`,
+		`| ${header.map(() => '---').join(' | ')} |`,
+		...rows.slice(1).map(row => `| ${row.map(cell).join(' | ')} |`)
+	].join('\n');
+
+	const names = header.filter(name => name !== '');
+	return {
+		kind: 'table',
+		content: table,
+		title: names.length > 0 ? `Table: ${names.slice(0, 4).join(', ')}${names.length > 4 ? ', ...' : ''}` : undefined,
+		tags: ['table']
+	};
+}
+
+// Comma separated rows are data when a header row of distinct labels is above them, or a column
+// holds numbers or dates only; an address or a few phrases with commas have neither
+function isDelimitedData(rows: string[][]): boolean {
+	const columns = rows[0].length;
+	if (columns < 2 || !rows.every(row => row.length === columns)) return false;
+
+	const body = rows.slice(1);
+	const typedColumn = rows[0].some((_, column) => {
+		const cells = body.map(row => row[column].trim()).filter(cell => cell !== '');
+		return cells.length > 0 && cells.every(cell => NUMBER_CELL.test(cell) || DATE_CELL.test(cell));
+	});
+	if (typedColumn) return true;
+
+	const labels = rows[0].map(cell => cell.trim().toLowerCase());
+	return new Set(labels).size === columns &&
+		labels.every(label => /^[^\d\s.,;:!?][^\d.,;:!?]*$/.test(label) && label.split(/\s+/).length <= 3);
+}
+
+// One CSV row; quoted cells may contain the delimiter and doubled quotes
+function parseDelimitedLine(line: string, delimiter: string): string[] {
+	const cells: string[] = [];
+	let current = '';
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				current += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				current += char;
+			}
+		} else if (char === '"' && current.trim() === '') {
+			quoted = true;
+			current = '';
+		} else if (char === delimiter) {
+			cells.push(current);
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	cells.push(current);
+	return cells;
+}
+
+function classifyCode(text: string): ClassifiedText | null {
+	const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+	const best = bestLanguage(text);
+	const language = best?.language;
+	// Shell commands and the like have no braces or semicolons, the language's own patterns count too
+	const codeLines = lines.filter(line => CODE_LINE.test(line) || language?.patterns.some(([pattern]) => pattern.test(line))).length;
+	const proseLines = lines.filter(line => PROSE_LINE.test(line)).length;
+	const indented = lines.filter(line => /^(\t| {2,})\S/.test(line)).length;
+
+	// A single line needs a strong language signal; longer snippets mostly code-like lines
+	const looksLikeCode = lines.length === 1
+		? best !== undefined && best.score >= 5 && proseLines === 0
+		: (codeLines + indented / 2) / lines.length >= 0.5 && proseLines / lines.length < 0.3 && (best !== undefined || codeLines >= 2);
+	if (!looksLikeCode) return null;
+
+	const code = dedent(text);
+	const match = language?.definition ? code.match(language.definition) : null;
+	const name = match ? match.slice(1).find(group => group !== undefined) : undefined;
+	const label = language?.label || 'Code';
+	return {
+		kind: 'code',
+		language: language?.name || '',
+		content: fenceCode(code, language?.name),
+		title: name ? `${name} (${label})` : `${label} snippet`,
+		tags: [language ? `code/${language.name}` : 'code']
+	};
+}
+
+// key: value lines and "- " items, with at least one nested block so that a few "Label: text" lines stay prose.
+// The lines must form YAML blocks with scalar values; "Heading:" lines above lists are left to the lists
+function classifyYaml(text: string): ClassifiedText | null {
+	const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !/^\s*#/.test(line));
+	if (lines.length < 3) return null;
+
+	const keyLine = /^\s*[\w"'.-]+\s*:(\s|$)/;
+	const itemLine = /^\s*- \S/;
+	const yamlLines = lines.filter(line => keyLine.test(line) || itemLine.test(line)).length;
+	const nested = lines.some(line => /:\s*$/.test(line)) && lines.some(line => /^\s+\S/.test(line));
+	const hasSentences = lines.some(line => PROSE_LINE.test(line.replace(/^\s*[\w"'.-]+\s*:\s*/, '')) && line.length > 80);
+	if (yamlLines / lines.length < 0.8 || !nested || hasSentences || !keyLine.test(lines[0])) return null;
+
+	const code = dedent(text).replace(/\t/g, '  ').replace(/[ \t]+$/gm, '');
+	if (!hasScalarValues(code.split('\n').filter(line => line.trim() !== '' && !/^\s*#/.test(line)))) return null;
+	const firstKey = lines[0].trim().replace(/^["']|["']?\s*:.*$/g, '');
+	return {
+		kind: 'yaml',
+		content: fenceCode(code, 'yaml'),
+		title: `YAML: ${firstKey}`,
+		tags: ['data/yaml']
+	};
+}
+
+// Whether the lines parse as YAML block mappings and sequences with at least one "key: value" pair.
+// A key without a value opens a more indented block (or a sequence at its own indent), "|" and ">"
+// a block of text; any other line continues an open block
+function hasScalarValues(lines: string[]): boolean {
+	const blocks = [0];
+	let opens = false;
+	let textIndent = -1;
+	let scalars = 0;
+	for (const line of lines) {
+		const indent = (line.match(/^ */) || [''])[0].length;
+		if (textIndent >= 0 && indent > textIndent) continue;
+		textIndent = -1;
+
+		const content = line.trim();
+		const item = /^-(\s|$)/.test(content);
+		const entry = content.replace(/^-\s*/, '');
+		const key = entry.match(YAML_KEY);
+		if (!item && !key) return false;
+
+		const top = blocks[blocks.length - 1];
+		if (opens) {
+			if (indent < top || (indent === top && !item)) return false;
+			blocks.push(indent);
+		} else {
+			while (blocks.length > 1 && indent < blocks[blocks.length - 1]) blocks.pop();
+			// "- key: value" may go on with more keys at the indent of the first one
+			if (indent !== blocks[blocks.length - 1]) return false;
+		}
+
+		const value = key ? (key[2] || '').trim() : entry;
+		if (/^[|>][-+]?\d*$/.test(value)) {
+			textIndent = indent;
+		} else if (/:\s/.test(value) && !/^["'[{]/.test(value)) {
+			// An unquoted ": " inside a value is an error in YAML
+			return false;
+		} else if (key && value !== '') {
+			scalars++;
+		}
+		opens = !!key && value === '';
+		if (item && key) {
+			// Further keys of the item's mapping line up with its first key
+			blocks.push(indent + content.indexOf(entry));
+		}
+	}
+	return scalars > 0;
+}
+
+// Bullets and numbered items from word processors and chat apps become markdown list items;
+// everything else stays as it is
+function classifyList(text: string): ClassifiedText {
+	const lines = text.split(/\r?\n/);
+	const indents = Array.from(new Set(lines
+		.map(line => BULLET.exec(line) || NUMBERED.exec(line))
+		.filter((match): match is RegExpExecArray => match !== null)
+		.map(match => match[1].replace(/\t/g, '    ').length)))
+		.sort((a, b) => a - b);
+
+	let items = 0;
+	const converted = lines.map(line => {
+		const bullet = BULLET.exec(line);
+		const numbered = bullet ? null : NUMBERED.exec(line);
+		const match = bullet || numbered;
+		if (!match) return line;
+		items++;
+		const level = indents.indexOf(match[1].replace(/\t/g, '    ').length);
+		const indent = '    '.repeat(Math.max(0, level));
+		if (bullet) {
+			return `${indent}- ${bullet[3]}`;
+		}
+		// Letters and "1)" style numbers become plain numbered items
+		const marker = numbered![2];
+		const number = /^\d+$/.test(marker) ? marker : String('abcdefghijklmnopqrstuvwxyz'.indexOf(marker) + 1);
+		return `${indent}${number}. ${numbered![3]}`;
+	});
+
+	const nonEmpty = lines.filter(line => line.trim() !== '').length;
+	const isList = items >= 2 && items / nonEmpty >= 0.5;
+	return {
+		kind: isList ? 'list' : 'prose',
+		content: items >= 2 ? converted.join('\n') : text,
+		tags: []
+	};
+}
+
+// Remove the indentation all lines share, as when a block is copied from the middle of a file
+function dedent(text: string): string {
+	const lines = text.split(/\r?\n/);
+	const indents = lines
+		.filter(line => line.trim() !== '')
+		.map(line => (line.match(/^[ \t]*/) || [''])[0]);
+	if (indents.length === 0) return text;
+	let common = indents[0];
+	for (const indent of indents) {
+		let length = 0;
+		while (length < common.length && length < indent.length && common[length] === indent[length]) length++;
+		common = common.substring(0, length);
+	}
+	return lines.map(line => line.substring(Math.min(common.length, line.length))).join('\n');
+}
@@ -0,0 +1,120 @@
+// Command line tool: runs the clip pipeline against a vault folder on disk with the plugin's
+// settings, so scripts and cron jobs write the same notes as the plugin
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createNodeEnvironment, readPluginData } from './node-adapter';
+import { ClipPipeline, ProcessedClip } from './pipeline';
+import { parseSettings } from './settings';
+
+const PLUGIN_ID = 'clipboard-to-note';
+
+const USAGE = `Usage: clip-to-note --vault <folder> (--url <url> | --stdin) [options]
+
+Options:
+  --vault <folder>       Vault folder the note is written to
+  --url <url>            Fetch and clip a web page, PDF, image or text file
+  --stdin                Clip text read from standard input (a single URL is fetched)
+  --folder <folder>      Destination folder instead of the routing rules and inbox folder
+  --config-dir <folder>  Obsidian configuration folder of the vault (default: .obsidian)
+  --verbose              Show progress messages on standard error
+  --help                 Show this help
+
+Settings are read from <vault>/<config-dir>/plugins/${PLUGIN_ID}/data.json.
+The path of the new note is printed to standard output.`;
+
+interface CliOptions {
+	vault?: string;
+	url?: string;
+	stdin: boolean;
+	folder?: string;
+	configDir: string;
+	verbose: boolean;
+	help: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions {
+	const options: CliOptions = { stdin: false, configDir: '.obsidian', verbose: false, help: false };
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		const value = () => {
+			if (i + 1 >= args.length) throw new Error(`Missing value for ${arg}`);
+			return args[++i];
+		};
+		switch (arg) {
+			case '--vault': options.vault = value(); break;
+			case '--url': options.url = value(); break;
+			case '--stdin': options.stdin = true; break;
+			case '--folder': options.folder = value(); break;
+			case '--config-dir': options.configDir = value(); break;
+			case '--verbose': options.verbose = true; break;
+			case '--help': case '-h': options.help = true; break;
+			default: throw new Error(`Unknown option: ${arg}`);
+		}
+	}
+	return options;
+}
+
+async function readStdin(): Promise<string> {
+	const chunks: Buffer[] = [];
+	for await (const chunk of process.stdin) {
+		chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+	}
+	return Buffer.concat(chunks).toString('utf8');
+}
+
+async function main(args: string[]): Promise<number> {
+	const options = parseArgs(args);
+	if (options.help) {
+		console.info(USAGE);
+		return 0;
+	}
+	if (!options.vault || !options.url === !options.stdin) {
+		process.stderr.write(`${USAGE}\n`);
+		return 2;
+	}
+
+	const vaultPath = path.resolve(options.vault.replace(/^~(?=$|[\\/])/, os.homedir()));
+	if (!fs.existsSync(vaultPath) || !fs.statSync(vaultPath).isDirectory()) {
+		throw new Error(`Vault folder not found: ${vaultPath}`);
+	}
+
+	// Standard output only carries the note path; the pipeline's logging goes to standard error with --verbose
+	const log = (message: string) => {
+		if (options.verbose) process.stderr.write(`${message}\n`);
+	};
+	console.log = console.warn = console.error = (...values: unknown[]) => log(values.map(String).join(' '));
+
+	const settings = parseSettings(readPluginData(vaultPath, options.configDir, PLUGIN_ID));
+	const pipeline = new ClipPipeline(settings, createNodeEnvironment(vaultPath, options.configDir, log));
+
+	const text = options.url || await readStdin();
+	let clip: ProcessedClip | null;
+	if (pipeline.isURL(text)) {
+		// Fetch errors are reported with their reason instead of a notice
+		clip = await pipeline.processURL(text.trim());
+		await pipeline.summarizeClip(clip);
+	} else {
+		clip = await pipeline.processClipboard({ text, images: [] });
+	}
+	if (!clip) {
+		throw new Error('Nothing to clip');
+	}
+
+	const route = pipeline.routeClip(clip);
+	const notePath = await pipeline.writeNote(clip, {
+		title: clip.title,
+		tags: route.tags,
+		folder: options.folder || route.folder,
+		content: clip.content
+	}, true);
+	process.stdout.write(`${notePath}\n`);
+	return 0;
+}
+
+main(process.argv.slice(2)).then(code => {
+	process.exitCode = code;
+}, error => {
+	process.stderr.write(`clip-to-note: ${error.message}\n`);
+	process.exitCode = 1;
+});
@@ -0,0 +1,85 @@
+// Reading rich clipboard content (plain text, HTML and images)
+
+export interface ClipboardImage {
+	data: ArrayBuffer;
+	mimeType: string;
+}
+
+export interface ClipboardContent {
+	text: string;
+	html?: string;
+	images: ClipboardImage[];
+}
+
+// Elements that make an HTML payload worth converting instead of using the plain text
+const RICH_ELEMENTS = 'a[href], table, strong, b, em, i, u, s, del, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, code, img, sup, sub, mark, math, figure, details';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/jpg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/bmp': 'bmp',
+	'image/svg+xml': 'svg',
+	'image/avif': 'avif',
+	'image/tiff': 'tiff'
+};
+
+export async function readClipboard(): Promise<ClipboardContent> {
+	const content: ClipboardContent = { text: '', images: [] };
+
+	// navigator.clipboard.read() is not available everywhere (older Electron, some mobile builds)
+	if (typeof navigator.clipboard.read !== 'function') {
+		content.text = await navigator.clipboard.readText();
+		return content;
+	}
+
+	let items: ClipboardItems;
+	try {
+		items = await navigator.clipboard.read();
+	} catch (error) {
+		console.log('Rich clipboard read failed, falling back to plain text:', error);
+		content.text = await navigator.clipboard.readText();
+		return content;
+	}
+
+	for (const item of items) {
+		for (const type of item.types) {
+			if (type === 'text/plain' && !content.text) {
+				content.text = await (await item.getType(type)).text();
+			} else if (type === 'text/html' && !content.html) {
+				content.html = await (await item.getType(type)).text();
+			} else if (type.startsWith('image/')) {
+				const blob = await item.getType(type);
+				content.images.push({ data: await blob.arrayBuffer(), mimeType: type });
+			}
+		}
+	}
+
+	return content;
+}
+
+// Parse clipboard HTML and return the fragment body, or null if it carries no formatting
+// beyond what the plain text already has
+export function parseClipboardHtml(html: string, parseHtml = (source: string) => new DOMParser().parseFromString(source, 'text/html')): HTMLElement | null {
+	// The CF_HTML header (Version, StartHTML, SourceURL, ...) of Windows clipboards is no content
+	const doc = parseHtml(html.replace(/^\s*Version:[^<]*/, ''));
+	const body = doc.body;
+
+	// Word and browsers add style blocks, conditional comments and Office namespaced tags
+	const junk = Array.from(body.querySelectorAll('script, style, meta, link, title, xml'));
+	for (const el of junk) {
+		el.remove();
+	}
+
+	if (!body.querySelector(RICH_ELEMENTS)) {
+		return null;
+	}
+
+	return body;
+}
+
+export function getImageExtension(mimeType: string): string {
+	return IMAGE_EXTENSIONS[mimeType.toLowerCase()] || mimeType.split('/')[1]?.replace(/\W.*$/, '') || 'png';
+}
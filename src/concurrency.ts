@@ -0,0 +1,18 @@
+// Run the worker over all items with at most `limit` running at once.
+// Items not yet started when shouldStop() turns true are left alone.
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>, shouldStop: () => boolean): Promise<void> {
+	let next = 0;
+	const runners: Promise<void>[] = [];
+
+	const run = async () => {
+		while (next < items.length && !shouldStop()) {
+			const item = items[next++];
+			await worker(item);
+		}
+	};
+
+	for (let i = 0; i < Math.max(1, Math.min(limit, items.length)); i++) {
+		runners.push(run());
+	}
+	await Promise.all(runners);
+}
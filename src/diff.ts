@@ -0,0 +1,122 @@
+// Line diff between the stored markdown of a clip and a fresh clip of its page
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+}
+
+export interface DiffHunk {
+	// 1-based line numbers where the hunk starts in the old and the new text
+	oldStart: number;
+	newStart: number;
+	lines: DiffLine[];
+}
+
+// Above this many compared line pairs, the changed middle is shown as removed and added as a whole
+const MAX_DIFF_CELLS = 4000 * 4000;
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const a = splitLines(oldText);
+	const b = splitLines(newText);
+
+	// Unchanged lines at the start and end are common; only the middle needs the table
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const head = a.slice(0, start).map(text => ({ type: 'same' as const, text }));
+	const tail = a.slice(endA).map(text => ({ type: 'same' as const, text }));
+	return [...head, ...diffMiddle(a.slice(start, endA), b.slice(start, endB)), ...tail];
+}
+
+// Changed lines with a few unchanged lines of context around them, like `diff -u`
+export function groupHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+	const hunks: DiffHunk[] = [];
+	let oldLine = 1;
+	let newLine = 1;
+	let current: DiffHunk | null = null;
+	let trailing = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		if (line.type !== 'same') {
+			if (!current) {
+				const before = lines.slice(Math.max(0, i - context), i);
+				current = { oldStart: oldLine - before.length, newStart: newLine - before.length, lines: [...before] };
+				hunks.push(current);
+			}
+			current.lines.push(line);
+			trailing = 0;
+		} else if (current) {
+			// A change within reach continues the hunk, otherwise it ends after its context
+			const nextChange = lines.slice(i, i + context * 2 + 1).some(next => next.type !== 'same');
+			if (trailing < context || nextChange) {
+				current.lines.push(line);
+				trailing = nextChange ? 0 : trailing + 1;
+			} else {
+				current = null;
+			}
+		}
+
+		if (line.type !== 'added') oldLine++;
+		if (line.type !== 'removed') newLine++;
+	}
+	return hunks;
+}
+
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+	return {
+		added: lines.filter(line => line.type === 'added').length,
+		removed: lines.filter(line => line.type === 'removed').length
+	};
+}
+
+function splitLines(text: string): string[] {
+	const trimmed = text.replace(/\s+$/, '');
+	return trimmed === '' ? [] : trimmed.split(/\r?\n/);
+}
+
+// Longest common subsequence of the lines, walked back into removed, added and unchanged lines
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+	if (a.length * b.length > MAX_DIFF_CELLS) {
+		return [
+			...a.map(text => ({ type: 'removed' as const, text })),
+			...b.map(text => ({ type: 'added' as const, text }))
+		];
+	}
+
+	const width = b.length + 1;
+	const table = new Uint32Array((a.length + 1) * width);
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			table[i * width + j] = a[i] === b[j]
+				? table[(i + 1) * width + j + 1] + 1
+				: Math.max(table[(i + 1) * width + j], table[i * width + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ type: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+			result.push({ type: 'removed', text: a[i++] });
+		} else {
+			result.push({ type: 'added', text: b[j++] });
+		}
+	}
+	while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+	while (j < b.length) result.push({ type: 'added', text: b[j++] });
+	return result;
+}
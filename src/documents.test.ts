@@ -0,0 +1,13 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { splitAuthors } from './documents';
+
+test('authors separated by commas, "and" or "&"', () => {
+	assert.deepEqual(splitAuthors('Jane Doe, John Smith, Jr. and Anna Berg'), ['Jane Doe', 'John Smith, Jr.', 'Anna Berg']);
+	assert.deepEqual(splitAuthors('Jane Doe & John Smith'), ['Jane Doe', 'John Smith']);
+});
+
+test('semicolons keep "Last, First" names together', () => {
+	assert.deepEqual(splitAuthors('Doe, Jane; Roe, Richard'), ['Doe, Jane', 'Roe, Richard']);
+	assert.deepEqual(splitAuthors('Doe, Jane; Roe, Richard and Berg, Anna'), ['Doe, Jane', 'Roe, Richard', 'Berg, Anna']);
+});
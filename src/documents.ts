@@ -0,0 +1,165 @@
+// Non-HTML responses of clipped URLs: content type detection, PDF text and metadata,
+// and formatting of plain text, markdown and JSON files
+import { sniffImageExtension } from './images';
+
+export type ContentKind = 'html' | 'pdf' | 'image' | 'markdown' | 'text' | 'json' | 'unsupported';
+
+export interface PdfContent {
+	title?: string;
+	author: string[];
+	published?: string;
+	text: string;
+	pages: number;
+}
+
+// Minimal surface of the PDF.js library used here (Obsidian bundles it, see loadPdfJs)
+export interface PdfJsLib {
+	getDocument(source: { data: Uint8Array }): { promise: Promise<PdfJsDocument> };
+}
+
+interface PdfJsDocument {
+	numPages: number;
+	getMetadata(): Promise<{ info?: Record<string, unknown> }>;
+	getPage(page: number): Promise<{ getTextContent(): Promise<{ items: { str?: string; hasEOL?: boolean }[] }> }>;
+	destroy(): Promise<void>;
+}
+
+// The Content-Type header decides; servers that send a generic type are checked by file extension and content
+export function detectContentKind(contentType: string | undefined, url: string, data: ArrayBuffer): ContentKind {
+	const type = (contentType || '').split(';')[0].trim().toLowerCase();
+	const extension = getUrlExtension(url);
+	const head = String.fromCharCode(...Array.from(new Uint8Array(data, 0, Math.min(data.byteLength, 5))));
+
+	if (type === 'application/pdf' || head === '%PDF-') return 'pdf';
+	if (type === 'text/html' || type === 'application/xhtml+xml') return 'html';
+	if (type.startsWith('image/') && sniffImageExtension(data, type)) return 'image';
+	if (type === 'text/markdown' || type === 'text/x-markdown') return 'markdown';
+	if (type === 'application/json' || type.endsWith('+json')) return 'json';
+
+	const generic = type === '' || type === 'text/plain' || type === 'application/octet-stream';
+	if (generic && /^(md|markdown)$/.test(extension)) return 'markdown';
+	if (generic && extension === 'json') return 'json';
+	if (type.startsWith('text/')) return 'text';
+	if (sniffImageExtension(data)) return 'image';
+	if (generic && /^(txt|log|csv|tsv)$/.test(extension)) return 'text';
+	if (type === '' && /^\s*</.test(head)) return 'html';
+	return 'unsupported';
+}
+
+// Header names differ in case between platforms
+export function getHeader(headers: Record<string, string>, name: string): string | undefined {
+	const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+	return key ? headers[key] : undefined;
+}
+
+export function getUrlExtension(url: string): string {
+	try {
+		const name = new URL(url).pathname.split('/').pop() || '';
+		return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+	} catch (error) {
+		return '';
+	}
+}
+
+// Last path segment without its extension, e.g. "2408.13296v1" or "README"
+export function getUrlFilename(url: string): string {
+	try {
+		const name = new URL(url).pathname.split('/').filter(segment => segment !== '').pop() || '';
+		let decoded = name;
+		try {
+			decoded = decodeURIComponent(name);
+		} catch (error) {
+			// Malformed escape, keep the encoded name
+		}
+		return decoded.replace(/\.[a-z0-9]{1,5}$/i, '') || new URL(url).hostname;
+	} catch (error) {
+		return 'Download';
+	}
+}
+
+// Title of a markdown file: its first heading, or the file name
+export function getMarkdownTitle(markdown: string, url: string): string {
+	const frontmatterTitle = markdown.match(/^---\r?\n[\s\S]*?^title:\s*["']?(.+?)["']?\s*$[\s\S]*?^---/m)?.[1];
+	const heading = markdown.match(/^#{1,2}\s+(.+?)\s*#*\s*$/m)?.[1];
+	return frontmatterTitle || heading || getUrlFilename(url);
+}
+
+// The file's own frontmatter would clash with the note's, so it is removed
+export function stripFrontmatter(markdown: string): string {
+	return markdown.replace(/^---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/, '');
+}
+
+export function formatJson(text: string): string {
+	let formatted = text.trim();
+	try {
+		formatted = JSON.stringify(JSON.parse(formatted), null, 2);
+	} catch (error) {
+		// Not valid JSON, keep the text as it is
+	}
+	return fenceCode(formatted, 'json');
+}
+
+// Fence long enough that backticks inside the code do not end the block
+export function fenceCode(code: string, language = ''): string {
+	const longest = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+	const fence = '`'.repeat(longest + 1);
+	return `${fence}${language}\n${code.replace(/\s+$/, '')}\n${fence}`;
+}
+
+export async function extractPdfContent(pdfjs: PdfJsLib, data: ArrayBuffer): Promise<PdfContent> {
+	// PDF.js takes ownership of the buffer, so it gets a copy
+	const pdf = await pdfjs.getDocument({ data: new Uint8Array(data.slice(0)) }).promise;
+	try {
+		const { info } = await pdf.getMetadata().catch(() => ({ info: undefined }));
+		const field = (name: string) => typeof info?.[name] === 'string' ? (info[name] as string).trim() : '';
+
+		const pages: string[] = [];
+		for (let number = 1; number <= pdf.numPages; number++) {
+			const page = await pdf.getPage(number);
+			const { items } = await page.getTextContent();
+			const text = items.map(item => (item.str || '') + (item.hasEOL ? '\n' : '')).join('');
+			pages.push(joinPdfLines(text));
+		}
+
+		return {
+			title: field('Title') || undefined,
+			author: splitAuthors(field('Author')),
+			published: parsePdfDate(field('CreationDate')),
+			text: pages.filter(page => page !== '').join('\n\n'),
+			pages: pdf.numPages
+		};
+	} finally {
+		await pdf.destroy();
+	}
+}
+
+// Lines of a paragraph are joined, hyphenated line breaks undone; blank lines stay paragraph breaks
+function joinPdfLines(text: string): string {
+	return text
+		.split(/\n\s*\n/)
+		.map(paragraph => paragraph
+			.replace(/(\w)-\n(\w)/g, '$1$2')
+			.replace(/\s*\n\s*/g, ' ')
+			.replace(/[ \t]{2,}/g, ' ')
+			.trim())
+		.filter(paragraph => paragraph !== '')
+		.join('\n\n');
+}
+
+// With semicolons between authors, commas belong to "Last, First" names
+export function splitAuthors(value: string): string[] {
+	const separator = value.includes(';')
+		? /\s*(?:;|\band\b|&)\s*/i
+		: /\s*(?:,(?!\s*(?:jr|sr|ph\.?d)\b)|\band\b|&)\s*/i;
+	return value
+		.split(separator)
+		.map(author => author.trim())
+		.filter(author => author !== '');
+}
+
+// PDF dates look like "D:20240823120000+02'00'"
+export function parsePdfDate(value: string): string | undefined {
+	const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?/);
+	if (!match) return undefined;
+	return `${match[1]}-${match[2] || '01'}-${match[3] || '01'}`;
+}
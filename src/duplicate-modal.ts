@@ -0,0 +1,52 @@
+// Modal asking what to do with a URL that already has a note
+import { App, Modal, Setting } from 'obsidian';
+import { DuplicateAction } from './duplicates';
+
+export function chooseDuplicateAction(app: App, existingPath: string): Promise<DuplicateAction | null> {
+	return new Promise(resolve => {
+		new DuplicateModal(app, existingPath, resolve).open();
+	});
+}
+
+class DuplicateModal extends Modal {
+	existingPath: string;
+	onResolve: (action: DuplicateAction | null) => void;
+	action: DuplicateAction | null = null;
+
+	constructor(app: App, existingPath: string, onResolve: (action: DuplicateAction | null) => void) {
+		super(app);
+		this.existingPath = existingPath;
+		this.onResolve = onResolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.setTitle('Already clipped');
+		contentEl.createEl('p', { text: `This URL was already clipped to "${this.existingPath}".` });
+
+		const choices: { action: DuplicateAction; name: string; desc: string; cta?: boolean }[] = [
+			{ action: 'open', name: 'Open existing note', desc: 'Do not fetch again', cta: true },
+			{ action: 'replace', name: 'Update clipped content', desc: 'Replace the content below the clip marker; your edits above it are kept' },
+			{ action: 'append', name: 'Append as new revision', desc: 'Add the current page content as a new section at the end' },
+			{ action: 'new', name: 'Create new note anyway', desc: 'Create a separate note as before' }
+		];
+
+		for (const choice of choices) {
+			new Setting(contentEl)
+				.setName(choice.name)
+				.setDesc(choice.desc)
+				.addButton(button => {
+					button.setButtonText(choice.name).onClick(() => {
+						this.action = choice.action;
+						this.close();
+					});
+					if (choice.cta) button.setCta();
+				});
+		}
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResolve(this.action);
+	}
+}
@@ -0,0 +1,32 @@
+// Notes that were already clipped from the same URL: the actions offered instead of creating
+// a numbered duplicate, and the marker that separates the clipped content from the user's own
+import { stripFrontmatter } from './documents';
+
+export type DuplicateAction = 'open' | 'replace' | 'append' | 'new';
+
+// Separates the user's own notes (above) from the clipped content (below)
+export const CLIP_MARKER = '%% clipboard-to-note: content below this line is replaced when the page is re-clipped %%';
+
+export function withClipMarker(content: string): string {
+	return `${CLIP_MARKER}\n\n${content}`;
+}
+
+// The clipped part of a note: everything below the marker, or the body of a note without one
+export function getClippedContent(note: string): string {
+	const markerIndex = note.indexOf(CLIP_MARKER);
+	return markerIndex !== -1 ? note.substring(markerIndex + CLIP_MARKER.length).trim() : stripFrontmatter(note).trim();
+}
+
+// Replace everything below the marker. Notes without a marker keep their whole body
+// above the new marker so no edits are lost.
+export function replaceClippedContent(note: string, content: string): string {
+	const markerIndex = note.indexOf(CLIP_MARKER);
+	if (markerIndex !== -1) {
+		return `${note.substring(0, markerIndex)}${withClipMarker(content)}\n`;
+	}
+	return `${note.replace(/\s+$/, '')}\n\n${withClipMarker(content)}\n`;
+}
+
+export function appendRevision(note: string, content: string, heading: string): string {
+	return `${note.replace(/\s+$/, '')}\n\n## ${heading}\n\n${content}\n`;
+}
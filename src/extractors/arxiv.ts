@@ -0,0 +1,107 @@
+// arXiv abstract pages (/abs/) and HTML full texts (/html/): authors, abstract, PDF link and BibTeX
+import { cleanCopy, metaContent, textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+
+const ARXIV_ID = /arxiv\.org\/(?:abs|html)\/([a-z-]+(?:\.[A-Z]{2})?\/\d{7}|\d{4}\.\d{4,5})(v\d+)?/i;
+// Generational suffixes, which are not part of the last name
+const NAME_SUFFIX = /^(?:Jr|Sr)\.?$|^(?:II|III|IV)$/;
+
+export const arxivExtractor: SiteExtractor = {
+	name: 'arXiv',
+	patterns: [ARXIV_ID],
+	extract: extractArxiv
+};
+
+function extractArxiv({ doc, url, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const idMatch = url.toString().match(ARXIV_ID);
+	if (!idMatch) return null;
+	const id = idMatch[1];
+	const version = idMatch[2] || '';
+	const isFullText = url.pathname.startsWith('/html/');
+
+	const title = metaContent(doc, 'citation_title') ||
+		textOf(doc.querySelector('h1.title, .ltx_title_document')).replace(/^Title:\s*/, '');
+	if (!title) return null;
+
+	let author = Array.from(doc.querySelectorAll('meta[name="citation_author"]'))
+		.map(el => formatCitationAuthor(el.getAttribute('content') || ''))
+		.filter(name => name !== '');
+	if (author.length === 0) {
+		author = Array.from(doc.querySelectorAll('.authors a, .ltx_personname'))
+			.map(el => textOf(el).replace(/\s*\d+$/, ''))
+			.filter(name => name !== '');
+	}
+
+	const published = (metaContent(doc, 'citation_date') || metaContent(doc, 'citation_online_date') || '')
+		.replace(/\//g, '-') || undefined;
+	const categories = Array.from(new Set((textOf(doc.querySelector('td.subjects')) || textOf(doc.querySelector('.primary-subject')))
+		.match(/\(([a-z-]+(?:\.[A-Za-z-]+)?)\)/g) || []))
+		.map(category => category.replace(/[()]/g, ''));
+
+	const absUrl = `https://arxiv.org/abs/${id}${version}`;
+	const pdfUrl = metaContent(doc, 'citation_pdf_url') || `https://arxiv.org/pdf/${id}${version}`;
+
+	const sections: string[] = [];
+	const links = [`[PDF](${pdfUrl})`, `[Abstract](${absUrl})`, `[HTML](https://arxiv.org/html/${id}${version})`];
+	sections.push(links.join(' · '));
+
+	if (isFullText) {
+		const article = doc.querySelector('article.ltx_document, .ltx_page_content');
+		if (!article) return null;
+		sections.push(toMarkdown(cleanCopy(article, ['.ltx_title_document', '.ltx_authors', '.ltx_dates', '.ltx_pagination', 'nav', '.ltx_bibitem .ltx_tag_bibitem'])));
+	} else {
+		const abstractEl = doc.querySelector('blockquote.abstract');
+		const abstract = abstractEl
+			? toMarkdown(cleanCopy(abstractEl, ['.descriptor']))
+			: metaContent(doc, 'citation_abstract');
+		if (!abstract) return null;
+		sections.push(`## Abstract\n\n${abstract.trim()}`);
+
+		const comments = textOf(doc.querySelector('td.comments'));
+		if (comments) sections.push(`**Comments:** ${comments}`);
+	}
+
+	sections.push(`## BibTeX\n\n\`\`\`bibtex\n${formatBibtex(id, title, author, published, categories[0], absUrl)}\n\`\`\``);
+
+	return {
+		title,
+		author,
+		published,
+		content: sections.join('\n\n'),
+		properties: {
+			arxiv: id,
+			pdf: pdfUrl,
+			categories: categories.length > 0 ? categories : undefined
+		}
+	};
+}
+
+// citation_author is "Last, First", or "Last, Jr., First"; only the first comma ends the last name
+export function formatCitationAuthor(name: string): string {
+	const comma = name.indexOf(',');
+	if (comma === -1) return name.trim();
+	const last = name.substring(0, comma).trim();
+	const rest = name.substring(comma + 1).split(',').map(part => part.trim());
+	const suffix = rest.length > 1 && NAME_SUFFIX.test(rest[0]) ? rest.shift() : '';
+	return [rest.join(', '), last, suffix].filter(Boolean).join(' ');
+}
+
+export function formatBibtex(id: string, title: string, author: string[], published: string | undefined, primaryClass: string | undefined, url: string): string {
+	const year = published?.substring(0, 4) || `20${id.substring(0, 2)}`;
+	const names = (author[0] || 'arxiv').split(' ').filter(word => !NAME_SUFFIX.test(word));
+	const lastName = names.pop() || 'arxiv';
+	const firstWord = title.toLowerCase().match(/[a-z0-9]+/)?.[0] || '';
+	const key = `${lastName.toLowerCase().normalize('NFD').replace(/[^a-z]/g, '')}${year}${firstWord}`;
+
+	const fields = [
+		`title = {${title}}`,
+		`author = {${author.join(' and ')}}`,
+		`year = {${year}}`,
+		`eprint = {${id}}`,
+		'archivePrefix = {arXiv}',
+		primaryClass ? `primaryClass = {${primaryClass}}` : '',
+		`url = {${url}}`
+	].filter(field => field !== '');
+
+	return `@misc{${key},\n  ${fields.join(',\n  ')}\n}`;
+}
@@ -0,0 +1,18 @@
+// DOM helpers shared by the site extractors
+
+export function textOf(element: Element | null | undefined): string {
+	return (element?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+export function metaContent(doc: Document, name: string): string | undefined {
+	return doc.querySelector(`meta[name="${name}"], meta[property="${name}"]`)?.getAttribute('content')?.trim() || undefined;
+}
+
+// Detached copy of an element with the given selectors removed
+export function cleanCopy(element: Element, removeSelectors: string[]): HTMLElement {
+	const copy = element.cloneNode(true) as HTMLElement;
+	for (const selector of removeSelectors) {
+		copy.querySelectorAll(selector).forEach(el => el.remove());
+	}
+	return copy;
+}
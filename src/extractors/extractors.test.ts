@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createTurndownService, parseHtml, readFixture } from '../fixtures';
+import { formatBibtex, formatCitationAuthor } from './arxiv';
+import { ExtractedPage, findSiteExtractor } from './index';
+
+// Runs the extractor matching url against a saved page in extractors/fixtures
+function extractFixture(name: string, url: string): ExtractedPage {
+	const extractor = findSiteExtractor(url);
+	assert.ok(extractor, `no extractor for ${url}`);
+	const service = createTurndownService();
+	const page = extractor.extract({
+		doc: parseHtml(readFixture(`extractors/fixtures/${name}.html`)),
+		url: new URL(url),
+		toMarkdown: html => service.turndown(html)
+	});
+	assert.ok(page, `${extractor.name} returned nothing for ${name}.html`);
+	return page;
+}
+
+test('arXiv abstract page', () => {
+	const page = extractFixture('arxiv', 'https://arxiv.org/abs/2408.13296v1');
+	assert.equal(page.title, 'Attention Is Not All You Need');
+	assert.deepEqual(page.author, ['John Smith Jr.', 'Jane Doe', 'Anna Maria van der Berg']);
+	assert.equal(page.published, '2024-08-23');
+	assert.deepEqual(page.properties, {
+		arxiv: '2408.13296',
+		pdf: 'https://arxiv.org/pdf/2408.13296v1',
+		categories: ['cs.LG', 'cs.CL']
+	});
+	assert.match(page.content, /^## Abstract\n\nWe show that attention is \*not\* all you need\.$/m);
+	assert.match(page.content, /@misc\{smith2024attention,/);
+});
+
+test('citation authors are split on the first comma only', () => {
+	assert.equal(formatCitationAuthor('Smith, Jr., John'), 'John Smith Jr.');
+	assert.equal(formatCitationAuthor('Doe, Jane'), 'Jane Doe');
+	assert.equal(formatCitationAuthor('Plato'), 'Plato');
+	assert.match(formatBibtex('2408.13296', 'On Names', ['John Smith III'], undefined, undefined, ''), /^@misc\{smith2024on,/);
+});
+
+test('Wikipedia article', () => {
+	const page = extractFixture('wikipedia', 'https://en.wikipedia.org/wiki/Turing_machine');
+	assert.equal(page.title, 'Turing machine');
+	assert.deepEqual(page.author, []);
+	assert.deepEqual(page.properties, { wikipedia: 'en', updated: '2025-10-04' });
+	assert.doesNotMatch(page.content, /\[edit\]|Infobox|References/);
+});
+
+test('GitHub repository', () => {
+	const page = extractFixture('github', 'https://github.com/octocat/hello-world');
+	assert.equal(page.title, 'octocat/hello-world');
+	assert.deepEqual(page.author, ['octocat']);
+	assert.deepEqual(page.properties, { repository: 'octocat/hello-world', stars: '2345', topics: ['example', 'hello-world'] });
+	assert.match(page.content, /```shell\nnpm start\n```/);
+});
+
+test('YouTube video', () => {
+	const page = extractFixture('youtube', 'https://www.youtube.com/watch?v=dQw4w9WgXcQ');
+	assert.equal(page.title, 'How Turing Machines Work');
+	assert.deepEqual(page.author, ['Computing Explained']);
+	assert.equal(page.published, '2024-03-05');
+	assert.deepEqual(page.properties, { channel: 'Computing Explained', duration: '1:02:05' });
+	assert.match(page.content, /Thanks for watching "everyone" \{really\}/);
+});
+
+test('Hacker News thread', () => {
+	const page = extractFixture('hackernews', 'https://news.ycombinator.com/item?id=41000000');
+	assert.equal(page.title, 'Show HN: A tiny Turing machine');
+	assert.deepEqual(page.author, ['alice']);
+	assert.equal(page.published, '2024-07-20');
+	assert.deepEqual(page.properties, { link: 'https://example.com/turing', points: '128', comments: '2' });
+	assert.match(page.content, /- \*\*bob\*\* \(2024-07-20\)\n\n {2}Nice work!\n\n {2}- \*\*alice\*\*/);
+});
+
+test('Reddit thread', () => {
+	const page = extractFixture('reddit', 'https://old.reddit.com/r/compsci/comments/abc123/what_is_a_turing_machine/');
+	assert.equal(page.title, 'What is a Turing machine?');
+	assert.deepEqual(page.author, ['carol']);
+	assert.equal(page.published, '2024-07-20');
+	assert.deepEqual(page.properties, { subreddit: 'compsci', link: undefined, points: '42', comments: '2' });
+	assert.match(page.content, /- \*\*dave\*\* \(2024-07-20, 10 points\)\n\n {2}A model of computation\./);
+});
@@ -0,0 +1,95 @@
+// GitHub repositories (description and README) and issue or pull request threads
+import { cleanCopy, metaContent, textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+import { ThreadComment, formatThread } from './thread';
+
+const REPOSITORY = /^https?:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/?(?:tree\/[^?#]*)?(?:[?#].*)?$/i;
+const THREAD = /^https?:\/\/github\.com\/([\w.-]+)\/([\w.-]+)\/(issues|pull|discussions)\/(\d+)/i;
+
+// Paths under github.com that are not user or organization names
+const RESERVED_OWNERS = /^(orgs|settings|marketplace|topics|collections|explore|features|sponsors|about|pricing|search|notifications|login|join)$/i;
+
+export const githubExtractor: SiteExtractor = {
+	name: 'GitHub',
+	patterns: [THREAD, REPOSITORY],
+	extract: context => THREAD.test(context.url.toString()) ? extractThread(context) : extractRepository(context)
+};
+
+function extractRepository({ doc, url, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const match = url.toString().match(REPOSITORY);
+	if (!match || RESERVED_OWNERS.test(match[1])) return null;
+	const repository = `${match[1]}/${match[2]}`;
+
+	const readme = doc.querySelector('#readme article.markdown-body, article.markdown-body');
+	const description = textOf(doc.querySelector('.BorderGrid p.f4, [itemprop="about"]')) ||
+		metaContent(doc, 'og:description')?.replace(/\s*-\s*[\w.-]+\/[\w.-]+$/, '');
+	if (!readme && !description) return null;
+
+	const sections: string[] = [];
+	if (description) {
+		sections.push(`> ${description}`);
+	}
+	if (readme) {
+		// Heading anchors and the "copy" buttons of code blocks are page furniture
+		sections.push(toMarkdown(cleanCopy(readme, ['a.anchor', '.zeroclipboard-container', 'clipboard-copy'])));
+	}
+
+	const stars = doc.querySelector('#repo-stars-counter-star')?.getAttribute('title')?.replace(/,/g, '');
+	const topics = Array.from(doc.querySelectorAll('a.topic-tag')).map(textOf).filter(topic => topic !== '');
+
+	return {
+		title: repository,
+		author: [match[1]],
+		content: sections.join('\n\n'),
+		properties: {
+			repository,
+			stars: stars || undefined,
+			topics: topics.length > 0 ? topics : undefined
+		}
+	};
+}
+
+function extractThread({ doc, url, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const match = url.toString().match(THREAD);
+	if (!match) return null;
+	const repository = `${match[1]}/${match[2]}`;
+	const kind = match[3] === 'pull' ? 'pull request' : match[3] === 'issues' ? 'issue' : 'discussion';
+	const number = match[4];
+
+	// Classic timeline markup, and the React issue viewer's test ids
+	const comments: ThreadComment[] = [];
+	const blocks = Array.from(doc.querySelectorAll('.timeline-comment, [data-testid="issue-body"], [data-testid^="comment-viewer-outer-box"]'));
+	for (const block of blocks) {
+		const body = block.querySelector<HTMLElement>('.comment-body, .markdown-body');
+		if (!body) continue;
+		comments.push({
+			author: textOf(block.querySelector('.author, [data-testid="avatar-link"], a[data-hovercard-type="user"]')),
+			depth: 0,
+			markdown: toMarkdown(cleanCopy(body, ['a.anchor', '.zeroclipboard-container', 'clipboard-copy'])),
+			date: block.querySelector('relative-time')?.getAttribute('datetime')?.substring(0, 10)
+		});
+	}
+	if (comments.length === 0) return null;
+
+	const rawTitle = textOf(doc.querySelector('.js-issue-title, bdi.markdown-title, [data-testid="issue-title"]')) ||
+		(metaContent(doc, 'og:title') || '').replace(/\s·\s.*$/, '');
+	const state = textOf(doc.querySelector('.gh-header-meta .State, [data-testid="header-state"]')).toLowerCase();
+
+	const [opening, ...replies] = comments;
+	const sections = [opening.markdown];
+	if (replies.length > 0) {
+		sections.push(`## Comments\n\n${formatThread(replies)}`);
+	}
+
+	return {
+		title: `${rawTitle || `${repository}#${number}`} (#${number})`,
+		author: opening.author ? [opening.author] : [],
+		published: opening.date,
+		content: sections.join('\n\n'),
+		properties: {
+			repository,
+			[kind === 'pull request' ? 'pull' : kind]: number,
+			state: state || undefined
+		}
+	};
+}
@@ -0,0 +1,74 @@
+// Hacker News item pages: the story or Ask HN text and the comment tree
+import { textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+import { ThreadComment, formatThread } from './thread';
+
+export const hackerNewsExtractor: SiteExtractor = {
+	name: 'Hacker News',
+	patterns: [/^https?:\/\/news\.ycombinator\.com\/item\?id=\d+/i],
+	extract: extractHackerNews
+};
+
+function extractHackerNews({ doc, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const story = doc.querySelector('.fatitem');
+	if (!story) return null;
+
+	const titleLink = story.querySelector<HTMLAnchorElement>('.titleline > a');
+	// Comment permalinks have no title line; their own text heads the page
+	const title = textOf(titleLink) || `Comment by ${textOf(story.querySelector('.hnuser'))}`;
+	const link = titleLink?.getAttribute('href');
+	const storyAuthor = textOf(story.querySelector('.hnuser'));
+	const points = textOf(story.querySelector('.score')).match(/\d+/)?.[0];
+
+	const sections: string[] = [];
+	if (link && /^https?:/.test(link)) {
+		sections.push(`[${link}](${link})`);
+	}
+	const text = story.querySelector<HTMLElement>('.toptext, .commtext');
+	if (text && textOf(text) !== '') {
+		sections.push(toMarkdown(text));
+	}
+
+	const comments: ThreadComment[] = [];
+	for (const row of Array.from(doc.querySelectorAll('tr.athing.comtr'))) {
+		const commentText = row.querySelector<HTMLElement>('.commtext');
+		if (!commentText) continue;
+		commentText.querySelectorAll('.reply').forEach(el => el.remove());
+		comments.push({
+			author: textOf(row.querySelector('.hnuser')),
+			depth: getIndent(row),
+			markdown: toMarkdown(commentText),
+			date: getDate(row)
+		});
+	}
+	if (comments.length > 0) {
+		sections.push(`## Comments\n\n${formatThread(comments)}`);
+	}
+
+	return {
+		title,
+		author: storyAuthor ? [storyAuthor] : [],
+		published: getDate(story),
+		content: sections.join('\n\n'),
+		properties: {
+			link: link && /^https?:/.test(link) ? link : undefined,
+			points,
+			comments: comments.length > 0 ? String(comments.length) : undefined
+		}
+	};
+}
+
+// Newer markup has an indent attribute, older markup a spacer image 40px wide per level
+function getIndent(row: Element): number {
+	const cell = row.querySelector('td.ind');
+	const attribute = cell?.getAttribute('indent');
+	if (attribute) return parseInt(attribute, 10) || 0;
+	const width = parseInt(cell?.querySelector('img')?.getAttribute('width') || '0', 10);
+	return Math.round(width / 40);
+}
+
+// The age element's title holds the ISO timestamp, optionally followed by a Unix time
+function getDate(element: Element): string | undefined {
+	const title = element.querySelector('.age')?.getAttribute('title') || '';
+	return title.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+}
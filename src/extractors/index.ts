@@ -0,0 +1,48 @@
+// Registry of site-specific extractors. Each extractor handles the URLs matching its
+// patterns and turns the fetched page into a title, authors, markdown content and extra
+// frontmatter properties. Extractors only read the parsed document, so they can be run
+// against saved HTML. Returning null falls back to the generic readability path.
+import { TemplateValue } from '../template';
+import { arxivExtractor } from './arxiv';
+import { githubExtractor } from './github';
+import { hackerNewsExtractor } from './hackernews';
+import { redditExtractor } from './reddit';
+import { wikipediaExtractor } from './wikipedia';
+import { youtubeExtractor } from './youtube';
+
+export interface ExtractorContext {
+	doc: Document;
+	url: URL;
+	// HTML to markdown with the plugin's Turndown settings
+	toMarkdown: (html: HTMLElement | string) => string;
+}
+
+export interface ExtractedPage {
+	title: string;
+	author: string[];
+	content: string;
+	published?: string;
+	// Added to the note's frontmatter unless the template already has the key
+	properties: Record<string, TemplateValue>;
+}
+
+export interface SiteExtractor {
+	name: string;
+	patterns: RegExp[];
+	// URL to fetch instead of the clipped one, e.g. a lighter version of the page
+	rewriteUrl?: (url: URL) => string;
+	extract(context: ExtractorContext): ExtractedPage | null;
+}
+
+export const SITE_EXTRACTORS: SiteExtractor[] = [
+	arxivExtractor,
+	wikipediaExtractor,
+	githubExtractor,
+	youtubeExtractor,
+	hackerNewsExtractor,
+	redditExtractor
+];
+
+export function findSiteExtractor(url: string): SiteExtractor | undefined {
+	return SITE_EXTRACTORS.find(extractor => extractor.patterns.some(pattern => pattern.test(url)));
+}
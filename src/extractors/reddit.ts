@@ -0,0 +1,131 @@
+// Reddit threads: the post and its comment tree. Pages are fetched from old.reddit.com,
+// whose markup carries the thread without scripts; the newer shreddit markup is read too.
+import { textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+import { ThreadComment, formatThread } from './thread';
+
+export const redditExtractor: SiteExtractor = {
+	name: 'Reddit',
+	patterns: [/^https?:\/\/(www\.|old\.|new\.)?reddit\.com\/r\/[^/]+\/comments\//i],
+	rewriteUrl: url => `https://old.reddit.com${url.pathname}`,
+	extract: context => extractOldReddit(context) || extractShreddit(context)
+};
+
+function extractOldReddit({ doc, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const post = doc.querySelector('#siteTable .thing.link');
+	if (!post) return null;
+
+	const title = textOf(post.querySelector('a.title'));
+	const author = post.getAttribute('data-author') || '';
+	const selftext = post.querySelector<HTMLElement>('.expando .usertext-body .md');
+	const link = post.getAttribute('data-url') || '';
+
+	const comments: ThreadComment[] = [];
+	for (const comment of Array.from(doc.querySelectorAll('.commentarea .thing.comment'))) {
+		const body = comment.querySelector<HTMLElement>(':scope > .entry .usertext-body .md');
+		if (!body) continue;
+		let depth = 0;
+		for (let parent = comment.parentElement?.closest('.thing.comment'); parent; parent = parent.parentElement?.closest('.thing.comment')) {
+			depth++;
+		}
+		const score = comment.querySelector(':scope > .entry .score.unvoted')?.getAttribute('title');
+		comments.push({
+			author: comment.getAttribute('data-author') || '',
+			depth,
+			markdown: toMarkdown(body),
+			date: comment.querySelector(':scope > .entry time')?.getAttribute('datetime')?.substring(0, 10),
+			score: score ? `${score} points` : undefined
+		});
+	}
+
+	return buildPage({
+		title,
+		author,
+		subreddit: post.getAttribute('data-subreddit') || '',
+		score: post.getAttribute('data-score') || undefined,
+		published: timestampDate(post.getAttribute('data-timestamp')),
+		link: /^https?:/.test(link) ? link : undefined,
+		text: selftext ? toMarkdown(selftext) : '',
+		comments
+	});
+}
+
+function extractShreddit({ doc, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const post = doc.querySelector('shreddit-post');
+	if (!post) return null;
+
+	const body = post.querySelector<HTMLElement>('[slot="text-body"]');
+	const link = post.getAttribute('content-href') || '';
+
+	const comments: ThreadComment[] = [];
+	for (const comment of Array.from(doc.querySelectorAll('shreddit-comment'))) {
+		const text = comment.querySelector<HTMLElement>(':scope > [slot="comment"]');
+		if (!text) continue;
+		const score = comment.getAttribute('score');
+		comments.push({
+			author: comment.getAttribute('author') || '',
+			depth: parseInt(comment.getAttribute('depth') || '0', 10),
+			markdown: toMarkdown(text),
+			date: comment.querySelector('time')?.getAttribute('datetime')?.substring(0, 10),
+			score: score ? `${score} points` : undefined
+		});
+	}
+
+	return buildPage({
+		title: post.getAttribute('post-title') || '',
+		author: post.getAttribute('author') || '',
+		subreddit: (post.getAttribute('subreddit-prefixed-name') || '').replace(/^r\//, ''),
+		score: post.getAttribute('score') || undefined,
+		published: post.getAttribute('created-timestamp')?.substring(0, 10),
+		link: /^https?:/.test(link) ? link : undefined,
+		text: body ? toMarkdown(body) : '',
+		comments
+	});
+}
+
+interface RedditThread {
+	title: string;
+	author: string;
+	subreddit: string;
+	score?: string;
+	published?: string;
+	link?: string;
+	text: string;
+	comments: ThreadComment[];
+}
+
+function buildPage(thread: RedditThread): ExtractedPage | null {
+	if (!thread.title) return null;
+
+	// Self posts link to their own thread
+	const link = thread.link && !/reddit\.com\/r\//.test(thread.link) ? thread.link : undefined;
+
+	const sections: string[] = [];
+	if (link) {
+		sections.push(`[${link}](${link})`);
+	}
+	if (thread.text.trim() !== '') {
+		sections.push(thread.text);
+	}
+	if (thread.comments.length > 0) {
+		sections.push(`## Comments\n\n${formatThread(thread.comments)}`);
+	}
+
+	return {
+		title: thread.title,
+		author: thread.author ? [thread.author] : [],
+		published: thread.published,
+		content: sections.join('\n\n'),
+		properties: {
+			subreddit: thread.subreddit || undefined,
+			link,
+			points: thread.score,
+			comments: thread.comments.length > 0 ? String(thread.comments.length) : undefined
+		}
+	};
+}
+
+function timestampDate(value: string | null): string | undefined {
+	const milliseconds = parseInt(value || '', 10);
+	return isNaN(milliseconds) ? undefined : new Date(milliseconds).toISOString().substring(0, 10);
+}
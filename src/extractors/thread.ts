@@ -0,0 +1,26 @@
+// Discussion threads as nested markdown lists, shared by the forum extractors
+
+export interface ThreadComment {
+	author: string;
+	// Nesting level, 0 for top-level replies
+	depth: number;
+	markdown: string;
+	date?: string;
+	score?: string;
+}
+
+export function formatThread(comments: ThreadComment[]): string {
+	return comments
+		.filter(comment => comment.markdown.trim() !== '')
+		.map(comment => {
+			const indent = '  '.repeat(comment.depth);
+			const details = [comment.date, comment.score].filter(Boolean).join(', ');
+			const header = `${indent}- **${comment.author || '[deleted]'}**${details ? ` (${details})` : ''}`;
+			// Continuation lines stay inside the list item
+			const body = comment.markdown.trim().split('\n')
+				.map(line => line === '' ? '' : `${indent}  ${line}`)
+				.join('\n');
+			return `${header}\n\n${body}`;
+		})
+		.join('\n\n');
+}
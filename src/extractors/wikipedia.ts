@@ -0,0 +1,64 @@
+// Wikipedia articles without edit links, citation markers, navigation boxes and reference lists
+import { cleanCopy, textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+
+// Page furniture inside the article body
+const CLUTTER = [
+	'.mw-editsection', 'sup.reference', 'sup.noprint', '.noprint', '.mw-jump-link', '.mw-empty-elt',
+	'#toc', '.toc', '.navbox', '.vertical-navbox', '.navbox-styles', '.sistersitebox', '.portalbox',
+	'.metadata', '.ambox', '.hatnote', '.shortdescription', '.authority-control', '.infobox',
+	'.reflist', '.refbegin', '.mw-references-wrap', 'ol.references', 'style', 'link', 'meta'
+];
+
+// Sections that only hold references and outbound links
+const REFERENCE_SECTIONS = /^(references|notes|citations|sources|footnotes|external links|bibliography|notes and references)$/i;
+
+export const wikipediaExtractor: SiteExtractor = {
+	name: 'Wikipedia',
+	patterns: [/^https?:\/\/([a-z-]+\.)?(m\.)?wikipedia\.org\/wiki\//i],
+	extract: extractWikipedia
+};
+
+function extractWikipedia({ doc, url, toMarkdown }: ExtractorContext): ExtractedPage | null {
+	const body = doc.querySelector('#mw-content-text .mw-parser-output');
+	if (!body) return null;
+
+	const title = textOf(doc.querySelector('#firstHeading')) ||
+		decodeURIComponent(url.pathname.replace(/^\/wiki\//, '')).replace(/_/g, ' ');
+
+	const content = cleanCopy(body, CLUTTER);
+	removeReferenceSections(content);
+
+	const language = doc.documentElement.getAttribute('lang') || url.hostname.split('.')[0];
+	const lastModified = textOf(doc.querySelector('#footer-info-lastmod')).match(/(\d{1,2} \w+ \d{4})/)?.[1];
+
+	return {
+		title,
+		author: [],
+		content: toMarkdown(content),
+		properties: {
+			wikipedia: language,
+			updated: lastModified ? formatWikipediaDate(lastModified) : undefined
+		}
+	};
+}
+
+// Headings are either bare <h2> elements or wrapped in <div class="mw-heading">
+function removeReferenceSections(root: HTMLElement) {
+	const children = Array.from(root.children);
+	let removing = false;
+	for (const child of children) {
+		const heading = child.matches('h2') ? child : child.matches('.mw-heading2') ? child.querySelector('h2') : null;
+		if (heading) {
+			removing = REFERENCE_SECTIONS.test(textOf(heading));
+		}
+		if (removing) {
+			child.remove();
+		}
+	}
+}
+
+function formatWikipediaDate(value: string): string | undefined {
+	const date = new Date(`${value} UTC`);
+	return isNaN(date.getTime()) ? undefined : date.toISOString().substring(0, 10);
+}
@@ -0,0 +1,83 @@
+// YouTube videos: title, channel, description and an embed of the video
+import { parseBalancedJson } from '../json';
+import { metaContent, textOf } from './dom';
+import { ExtractedPage, ExtractorContext, SiteExtractor } from './index';
+
+const VIDEO_ID = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|live\/|embed\/)|youtu\.be\/)([\w-]{11})/i;
+
+interface VideoDetails {
+	title?: string;
+	author?: string;
+	shortDescription?: string;
+	lengthSeconds?: string;
+}
+
+export const youtubeExtractor: SiteExtractor = {
+	name: 'YouTube',
+	patterns: [/^https?:\/\/(www\.|m\.)?youtube\.com\/(watch|shorts\/|live\/)/i, /^https?:\/\/youtu\.be\//i],
+	rewriteUrl: url => {
+		const id = url.toString().match(VIDEO_ID)?.[1];
+		return id ? `https://www.youtube.com/watch?v=${id}` : url.toString();
+	},
+	extract: extractYouTube
+};
+
+function extractYouTube({ doc, url }: ExtractorContext): ExtractedPage | null {
+	const id = url.toString().match(VIDEO_ID)?.[1];
+	if (!id) return null;
+
+	// The player response embedded in the page has the full description, unlike the meta tags
+	const player = findScriptJson(doc, 'ytInitialPlayerResponse') as { videoDetails?: VideoDetails; microformat?: { playerMicroformatRenderer?: { publishDate?: string } } } | undefined;
+	const details = player?.videoDetails || {};
+
+	const title = details.title || metaContent(doc, 'og:title') || metaContent(doc, 'title');
+	if (!title) return null;
+	const channel = details.author || textOf(doc.querySelector('[itemprop="author"] [itemprop="name"]')) ||
+		doc.querySelector('[itemprop="author"] link[itemprop="name"]')?.getAttribute('content') || '';
+	const description = details.shortDescription || metaContent(doc, 'og:description') || '';
+	const published = (player?.microformat?.playerMicroformatRenderer?.publishDate ||
+		doc.querySelector('meta[itemprop="datePublished"], meta[itemprop="uploadDate"]')?.getAttribute('content') || '')
+		.substring(0, 10) || undefined;
+
+	const sections = [`![](https://www.youtube.com/watch?v=${id})`];
+	if (description.trim() !== '') {
+		// Line breaks in the description are meaningful (track lists, chapters)
+		const lines = description.trim().split('\n').map(line => line.trimEnd());
+		sections.push(`## Description\n\n${lines.join('  \n').replace(/( {2}\n){2,}/g, '\n\n')}`);
+	}
+
+	return {
+		title,
+		author: channel ? [channel] : [],
+		published,
+		content: sections.join('\n\n'),
+		properties: {
+			channel: channel || undefined,
+			duration: formatDuration(details.lengthSeconds)
+		}
+	};
+}
+
+// `var name = {...};` assignments in inline scripts
+function findScriptJson(doc: Document, name: string): unknown {
+	for (const script of Array.from(doc.querySelectorAll('script'))) {
+		const text = script.textContent || '';
+		const start = text.indexOf(name);
+		if (start === -1) continue;
+		const open = text.indexOf('{', start);
+		if (open === -1) continue;
+
+		const value = parseBalancedJson(text, open);
+		if (value !== undefined) return value;
+	}
+	return undefined;
+}
+
+function formatDuration(seconds?: string): string | undefined {
+	const total = parseInt(seconds || '', 10);
+	if (isNaN(total) || total <= 0) return undefined;
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor(total % 3600 / 60);
+	const rest = String(total % 60).padStart(2, '0');
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
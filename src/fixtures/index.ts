@@ -0,0 +1,32 @@
+// HTML fixtures of the tests, converted the way the pipeline converts a page
+import { readFileSync } from 'fs';
+import { JSDOM } from 'jsdom';
+import TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+import { markFootnotes } from '../footnotes';
+import { markMath } from '../math';
+import { TURNDOWN_OPTIONS, clipRules } from '../turndown-rules';
+
+// Paths are relative to the repository root, where npm test runs
+export function readFixture(path: string): string {
+	return readFileSync(`src/${path}`, 'utf8');
+}
+
+export function parseHtml(html: string): Document {
+	return new JSDOM(html).window.document;
+}
+
+export function createTurndownService(): TurndownService {
+	const service = new TurndownService(TURNDOWN_OPTIONS);
+	service.use(gfm);
+	service.use(clipRules);
+	return service;
+}
+
+// Markdown of a fixture page: math and footnotes marked, then the body converted
+export function convertFixture(path: string): string {
+	const doc = parseHtml(readFixture(path));
+	markMath(doc.body);
+	markFootnotes(doc.body);
+	return createTurndownService().turndown(doc.body).trim();
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { convertFixture, parseHtml, readFixture } from './fixtures';
+import { FOOTNOTE_ATTRIBUTE, FOOTNOTE_DEFINITION_ATTRIBUTE, appendMissingFootnotes, formatFootnoteDefinition, markFootnotes } from './footnotes';
+
+test('footnotes fixture converts to markdown footnotes', () => {
+	assert.equal(convertFixture('fixtures/footnotes.html'), readFixture('fixtures/footnotes.md').trim());
+});
+
+test('references are numbered in order and share the number of their definition', () => {
+	const doc = parseHtml('<p>a<sup><a href="#n2">x</a></sup> b<sup><a href="#n1">y</a></sup> c<sup><a href="#n2">x</a></sup></p><ol><li id="n1">One</li><li id="n2">Two</li></ol>');
+	const definitions = markFootnotes(doc.body);
+	assert.deepEqual(Array.from(doc.querySelectorAll(`[${FOOTNOTE_ATTRIBUTE}]`)).map(anchor => anchor.getAttribute(FOOTNOTE_ATTRIBUTE)), ['1', '2', '1']);
+	assert.equal(definitions.get('1')?.textContent, 'Two');
+	assert.equal(definitions.get('2')?.textContent, 'One');
+});
+
+test('links to headings and list items without a footnote marker are left alone', () => {
+	const doc = parseHtml('<p><a href="#intro">Intro</a> and <a href="#step">step</a></p><h2 id="intro">Intro</h2><ol><li id="step">Step</li></ol>');
+	assert.equal(markFootnotes(doc.body).size, 0);
+	assert.equal(doc.querySelectorAll('a[href]').length, 2);
+});
+
+test('definitions left out by the content extraction are appended to the content', () => {
+	const doc = parseHtml('<article><p>Text<sup><a href="#fn1">1</a></sup></p></article><aside><ol><li id="fn1">Note</li></ol></aside>');
+	const definitions = markFootnotes(doc.body);
+	const article = doc.querySelector('article')!;
+	// The extraction drops asides
+	doc.querySelector('aside')!.remove();
+	appendMissingFootnotes(article, definitions);
+	appendMissingFootnotes(article, definitions);
+	const appended = article.querySelectorAll(`[${FOOTNOTE_DEFINITION_ATTRIBUTE}]`);
+	assert.equal(appended.length, 1);
+	assert.equal(appended[0].textContent, 'Note');
+});
+
+test('continuation lines of a definition are indented', () => {
+	assert.equal(formatFootnoteDefinition('1', 'First paragraph.\n\nSecond paragraph.'), '\n\n[^1]: First paragraph.\n\n    Second paragraph.\n\n');
+});
@@ -0,0 +1,150 @@
+// Footnotes and citations of a clipped page as markdown footnotes: references (links into a
+// footnote or reference list, LaTeXML's inline notes) and their definitions are marked before
+// the links are rewritten, and the turndown rules in turndown-rules.ts write [^1] and "[^1]: ..."
+
+// Footnote number of a reference, and of a definition
+export const FOOTNOTE_ATTRIBUTE = 'data-clip-footnote';
+export const FOOTNOTE_DEFINITION_ATTRIBUTE = 'data-clip-footnote-definition';
+
+// Elements a footnote link can point at
+const DEFINITION_SELECTOR = 'li, [role~="doc-footnote"], [role~="doc-endnote"], [role~="doc-biblioentry"], .footnote, .footnote-item';
+// Links back from a definition to its reference, and numbers that only repeat the footnote number
+const BACKLINK_SELECTOR = '[role~="doc-backlink"], .footnote-back, .footnote-backref, .reversefootnote, .mw-cite-backlink, .ltx_note_mark, .ltx_tag_note';
+const REFERENCE_CLASS = /foot|note|ref|cite/i;
+
+// Marks the footnote references and definitions in root; returns the definitions by number,
+// so they can be added back when content extraction leaves them out (see appendMissingFootnotes)
+export function markFootnotes(root: Element): Map<string, Element> {
+	const doc = root.ownerDocument;
+	const definitions = new Map<string, Element>();
+	const numbers = new Map<Element, string>();
+	const referenceIds = new Set<string>();
+	const references: { anchor: Element; definition: Element }[] = [];
+
+	for (const anchor of Array.from(root.querySelectorAll('a[href^="#"]'))) {
+		const definition = findDefinition(doc, anchor);
+		if (definition && isReference(anchor)) {
+			references.push({ anchor, definition });
+		}
+	}
+	// LaTeXML (arXiv) puts each footnote's text inline, next to its mark
+	const inlineNotes = Array.from(root.querySelectorAll('.ltx_note.ltx_role_footnote'));
+
+	if (references.length === 0 && inlineNotes.length === 0) return definitions;
+
+	const number = (definition: Element) => {
+		if (!numbers.has(definition)) {
+			numbers.set(definition, String(numbers.size + 1));
+		}
+		return numbers.get(definition)!;
+	};
+
+	for (const { anchor, definition } of references) {
+		for (let element: Element | null = anchor; element && element !== root; element = element.parentElement) {
+			if (element.id) referenceIds.add(element.id);
+			if (element.localName !== 'a' && element.localName !== 'sup' && element.localName !== 'span') break;
+		}
+		const label = number(definition);
+		// Without its href the reference is left alone by rewriteLinks
+		anchor.removeAttribute('href');
+		anchor.setAttribute(FOOTNOTE_ATTRIBUTE, label);
+		definition.setAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE, label);
+		definitions.set(label, definition);
+		removeBrackets(anchor.parentElement);
+	}
+
+	for (const note of inlineNotes) {
+		const content = note.querySelector('.ltx_note_content');
+		if (!content) continue;
+		const definition = doc.createElement('div');
+		definition.append(...Array.from(content.childNodes));
+		const label = number(definition);
+		definition.setAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE, label);
+		definitions.set(label, definition);
+
+		// With text, so turndown does not drop it as blank
+		const reference = doc.createElement('span');
+		reference.setAttribute(FOOTNOTE_ATTRIBUTE, label);
+		reference.textContent = label;
+		note.replaceWith(reference);
+		// Definitions go where the content extraction keeps them: at the end of the article
+		(reference.closest('article, main, [role="main"]') || root).appendChild(definition);
+	}
+
+	for (const definition of Array.from(definitions.values())) {
+		for (const backlink of Array.from(definition.querySelectorAll(BACKLINK_SELECTOR))) {
+			backlink.remove();
+		}
+		for (const anchor of Array.from(definition.querySelectorAll('a[href^="#"]'))) {
+			const target = (anchor.getAttribute('href') || '').substring(1);
+			if (referenceIds.has(safeDecode(target)) || /^(?:[\s↩↑^⤴]|\uFE0E)+$/.test(anchor.textContent || '')) {
+				anchor.remove();
+			}
+		}
+		// Rules between the text and a footnote list
+		if (definition.localName === 'li') {
+			for (const rule of Array.from(definition.parentElement?.parentElement?.children || [])) {
+				if (rule.localName === 'hr') rule.remove();
+			}
+		}
+	}
+
+	return definitions;
+}
+
+// Definitions of the footnotes referenced in content that are not part of it
+export function appendMissingFootnotes(content: Element, definitions: Map<string, Element>) {
+	const defined = new Set(Array.from(content.querySelectorAll(`[${FOOTNOTE_DEFINITION_ATTRIBUTE}]`))
+		.map(element => element.getAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE)));
+	const referenced = new Set(Array.from(content.querySelectorAll(`[${FOOTNOTE_ATTRIBUTE}]`))
+		.map(element => element.getAttribute(FOOTNOTE_ATTRIBUTE) || ''));
+
+	for (const label of Array.from(referenced)) {
+		const definition = definitions.get(label);
+		if (definition && !defined.has(label)) {
+			const copy = content.ownerDocument.createElement('div');
+			copy.setAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE, label);
+			copy.append(...Array.from(definition.cloneNode(true).childNodes));
+			content.appendChild(copy);
+		}
+	}
+}
+
+// Footnote definition; further lines are indented so they stay part of it
+export function formatFootnoteDefinition(label: string, content: string): string {
+	const lines = content.trim().split('\n').map((line, index) => index > 0 && line ? `    ${line}` : line);
+	return `\n\n[^${label}]: ${lines.join('\n')}\n\n`;
+}
+
+function findDefinition(doc: Document, anchor: Element): Element | null {
+	const id = safeDecode((anchor.getAttribute('href') || '').substring(1));
+	const target = id ? doc.getElementById(id) : null;
+	if (!target || target.contains(anchor) || !target.matches(DEFINITION_SELECTOR)) return null;
+	return target;
+}
+
+// Footnote markers are superscript numbers or links named and classed after notes and references
+function isReference(anchor: Element): boolean {
+	if (/doc-noteref/.test(anchor.getAttribute('role') || '') || anchor.getAttribute('rel') === 'footnote') return true;
+	if (anchor.closest('sup') || anchor.querySelector('sup')) return true;
+	return REFERENCE_CLASS.test(`${anchor.className} ${anchor.getAttribute('href')}`);
+}
+
+// "[1, 2]" around citation links would turn the footnotes into "[[^1], [^2]]"
+function removeBrackets(element: Element | null) {
+	if (!element || !['cite', 'sup', 'span'].includes(element.localName)) return;
+	const texts = Array.from(element.childNodes).filter(node => node.nodeType === 3);
+	if (texts.every(node => /^[\s[\](),;]*$/.test(node.textContent || ''))) {
+		for (const node of texts) {
+			node.textContent = (node.textContent || '').replace(/[[\]()]/g, '');
+		}
+	}
+}
+
+function safeDecode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch (error) {
+		return value;
+	}
+}
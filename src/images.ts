@@ -0,0 +1,250 @@
+// Image helpers for the download pipeline: picking the real source of lazy-loaded and
+// responsive images, file type sniffing from magic bytes, dimensions, data: URIs and hashing
+import { resolveUrl } from './url';
+
+export interface ImageLimits {
+	// Largest accepted file in bytes (0 = no limit)
+	maxBytes: number;
+	// Images narrower or lower than this are treated as icons or tracking pixels (0 = no limit)
+	minDimension: number;
+}
+
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+export interface ImageFailure {
+	url: string;
+	reason: string;
+}
+
+export interface ImageReport {
+	saved: number;
+	// Images that already existed in the vault with the same content
+	reused: number;
+	// Images left out on purpose: too small or too large
+	skipped: ImageFailure[];
+	failed: ImageFailure[];
+}
+
+// Attributes lazy-loading scripts use for the real image before it scrolls into view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-original', 'data-lazy-src', 'data-url', 'data-hi-res-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+	'image/png': 'png',
+	'image/jpeg': 'jpg',
+	'image/jpg': 'jpg',
+	'image/pjpeg': 'jpg',
+	'image/gif': 'gif',
+	'image/webp': 'webp',
+	'image/avif': 'avif',
+	'image/svg+xml': 'svg',
+	'image/bmp': 'bmp',
+	'image/x-icon': 'ico',
+	'image/vnd.microsoft.icon': 'ico',
+	'image/tiff': 'tiff'
+};
+
+// Point every <img> at its best real source before the page is converted to markdown:
+// the largest srcset or <picture> candidate, lazy-load attributes over placeholders,
+// resolved against the page URL
+export function resolveImageSources(root: Element, baseUrl: string) {
+	for (const picture of Array.from(root.querySelectorAll('picture'))) {
+		const img = picture.querySelector('img');
+		if (!img) {
+			picture.remove();
+			continue;
+		}
+		const srcsets = Array.from(picture.querySelectorAll('source'))
+			.map(source => source.getAttribute('srcset') || source.getAttribute('data-srcset') || '')
+			.filter(srcset => srcset !== '');
+		const best = pickSrcsetCandidate([getSrcset(img), ...srcsets].join(', '));
+		if (best) img.setAttribute('src', best);
+		picture.replaceWith(img);
+	}
+
+	for (const img of Array.from(root.querySelectorAll('img'))) {
+		const src = pickSrcsetCandidate(getSrcset(img)) || getLazySrc(img) || img.getAttribute('src') || '';
+		const absolute = src.startsWith('data:') || !baseUrl ? src : resolveUrl(src, baseUrl) || src;
+		if (absolute) {
+			img.setAttribute('src', absolute);
+		}
+		img.removeAttribute('srcset');
+	}
+}
+
+function getSrcset(img: Element): string {
+	for (const attribute of LAZY_SRCSET_ATTRIBUTES) {
+		const value = img.getAttribute(attribute);
+		if (value) return value;
+	}
+	return img.getAttribute('srcset') || '';
+}
+
+// A real lazy-load source beats a placeholder src (empty, a data: pixel or a "blank"/"spinner" image)
+function getLazySrc(img: Element): string | undefined {
+	const src = img.getAttribute('src') || '';
+	const isPlaceholder = src === '' || src.startsWith('data:') || /blank|placeholder|spacer|loading|lazy/i.test(src);
+	for (const attribute of LAZY_SRC_ATTRIBUTES) {
+		const value = img.getAttribute(attribute);
+		if (value && (isPlaceholder || attribute === 'data-hi-res-src')) return value;
+	}
+	return undefined;
+}
+
+// Largest candidate of a srcset: by width descriptor ("800w"), else by density ("2x")
+export function pickSrcsetCandidate(srcset: string): string | undefined {
+	let best: string | undefined;
+	let bestScore = -1;
+
+	// URLs may contain commas, so candidates are split on a comma followed by whitespace
+	for (const candidate of srcset.split(/,\s+/)) {
+		const [url, descriptor = '1x'] = candidate.trim().split(/\s+/);
+		if (!url || url.startsWith('data:')) continue;
+
+		const value = parseFloat(descriptor);
+		const score = descriptor.endsWith('w') ? value : descriptor.endsWith('x') ? value * 1000 : 1000;
+		if (!isNaN(score) && score > bestScore) {
+			best = url.replace(/,$/, '');
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+// File extension from the bytes themselves; falls back to the Content-Type header.
+// Returns undefined when the data is not an image (e.g. an HTML error page).
+export function sniffImageExtension(data: ArrayBuffer, contentType?: string): string | undefined {
+	const bytes = new Uint8Array(data, 0, Math.min(data.byteLength, 512));
+	const startsWith = (...values: number[]) => values.every((value, i) => bytes[i] === value);
+	const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+
+	if (startsWith(0x89, 0x50, 0x4e, 0x47)) return 'png';
+	if (startsWith(0xff, 0xd8, 0xff)) return 'jpg';
+	if (ascii(0, 4) === 'GIF8') return 'gif';
+	if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+	if (ascii(4, 8) === 'ftyp' && /^(avif|avis)$/.test(ascii(8, 12))) return 'avif';
+	if (startsWith(0x42, 0x4d)) return 'bmp';
+	if (startsWith(0x00, 0x00, 0x01, 0x00)) return 'ico';
+	if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'tiff';
+
+	const text = ascii(0, bytes.length).replace(/^\uFEFF/, '').trimStart();
+	if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) return 'svg';
+
+	// No known signature: trust an image Content-Type, but never text/html or similar
+	return getContentTypeExtension(contentType);
+}
+
+export function getContentTypeExtension(contentType?: string): string | undefined {
+	return CONTENT_TYPE_EXTENSIONS[(contentType || '').split(';')[0].trim().toLowerCase()];
+}
+
+// Pixel size read from the image header for PNG, GIF, JPEG, WebP and BMP
+export function getImageDimensions(data: ArrayBuffer, extension: string): ImageDimensions | undefined {
+	const view = new DataView(data);
+	const size = data.byteLength;
+
+	try {
+		switch (extension) {
+			case 'png':
+				return size >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : undefined;
+			case 'gif':
+				return size >= 10 ? { width: view.getUint16(6, true), height: view.getUint16(8, true) } : undefined;
+			case 'bmp':
+				return size >= 26 ? { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) } : undefined;
+			case 'webp': {
+				const chunk = String.fromCharCode(view.getUint8(12), view.getUint8(13), view.getUint8(14), view.getUint8(15));
+				if (chunk === 'VP8X') {
+					return {
+						width: 1 + (view.getUint8(24) | view.getUint8(25) << 8 | view.getUint8(26) << 16),
+						height: 1 + (view.getUint8(27) | view.getUint8(28) << 8 | view.getUint8(29) << 16)
+					};
+				}
+				if (chunk === 'VP8 ') {
+					return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+				}
+				if (chunk === 'VP8L') {
+					const bits = view.getUint32(21, true);
+					return { width: 1 + (bits & 0x3fff), height: 1 + (bits >> 14 & 0x3fff) };
+				}
+				return undefined;
+			}
+			case 'jpg': {
+				// Walk the segments up to the start-of-frame marker
+				let offset = 2;
+				while (offset + 9 < size) {
+					if (view.getUint8(offset) !== 0xff) return undefined;
+					const marker = view.getUint8(offset + 1);
+					if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+						return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+					}
+					offset += 2 + view.getUint16(offset + 2);
+				}
+				return undefined;
+			}
+			default:
+				return undefined;
+		}
+	} catch (error) {
+		// Truncated header
+		return undefined;
+	}
+}
+
+// Why an image should not be saved, or undefined when it is within the limits
+export function checkImageLimits(data: ArrayBuffer, extension: string, limits: ImageLimits): string | undefined {
+	if (limits.maxBytes > 0 && data.byteLength > limits.maxBytes) {
+		return `larger than ${formatBytes(limits.maxBytes)} (${formatBytes(data.byteLength)})`;
+	}
+	if (limits.minDimension > 0) {
+		const dimensions = getImageDimensions(data, extension);
+		if (dimensions && (dimensions.width < limits.minDimension || dimensions.height < limits.minDimension)) {
+			return `smaller than ${limits.minDimension}px (${dimensions.width}×${dimensions.height})`;
+		}
+	}
+	return undefined;
+}
+
+export function decodeDataUri(uri: string): { data: ArrayBuffer; contentType: string } | undefined {
+	const match = uri.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/);
+	if (!match) return undefined;
+
+	const contentType = match[1] || 'text/plain';
+	const payload = match[3];
+	let bytes: Uint8Array;
+	try {
+		if (/;base64/i.test(match[2])) {
+			const binary = atob(decodeURIComponent(payload).replace(/\s+/g, ''));
+			bytes = new Uint8Array(binary.length);
+			for (let i = 0; i < binary.length; i++) {
+				bytes[i] = binary.charCodeAt(i);
+			}
+		} else {
+			bytes = new TextEncoder().encode(decodeURIComponent(payload));
+		}
+	} catch (error) {
+		return undefined;
+	}
+	return { data: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer, contentType };
+}
+
+export async function hashImage(data: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Content followed by a collapsed callout listing the images that could not be downloaded
+export function appendImageReport(content: string, report: ImageReport): string {
+	if (report.failed.length === 0) return content;
+	const count = report.failed.length === 1 ? '1 image' : `${report.failed.length} images`;
+	const lines = report.failed.map(failure => `> - ${failure.url}: ${failure.reason}`);
+	return `${content.trimEnd()}\n\n> [!warning]- ${count} could not be downloaded\n${lines.join('\n')}`;
+}
+
+export function formatBytes(bytes: number): string {
+	if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+	if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+	return `${bytes} B`;
+}
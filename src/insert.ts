@@ -0,0 +1,123 @@
+// Adding a clip to an existing note instead of creating a new one: the inserted block
+// with its inline citation, insertion under a heading, daily note paths and a note picker
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { formatDate } from './template';
+
+export interface Citation {
+	title: string;
+	url?: string;
+	date: Date;
+	tags: string[];
+}
+
+export interface DailyNoteOptions {
+	folder: string;
+	// Moment.js format of the file name
+	format: string;
+	template: string;
+}
+
+// Clip content followed by a citation line: "— [Title](url), 2025-10-05 #tag"
+export function formatInsertion(content: string, citation: Citation): string {
+	const parts: string[] = [];
+	if (citation.url) {
+		const title = citation.title.replace(/([[\]])/g, '\\$1');
+		const url = /[\s()<>]/.test(citation.url) ? `<${citation.url}>` : citation.url;
+		parts.push(`— [${title}](${url}), ${formatDate(citation.date, 'YYYY-MM-DD')}`);
+	}
+	if (citation.tags.length > 0) {
+		parts.push(citation.tags.map(tag => `#${tag}`).join(' '));
+	}
+
+	const body = content.trim();
+	const line = parts.join(' ');
+	return [body, line].filter(part => part !== '').join('\n\n');
+}
+
+// Append a block to the end of the section under `heading` (e.g. "## Clippings").
+// The heading is added at the end of the note when it does not exist yet.
+export function insertUnderHeading(note: string, heading: string, block: string): string {
+	const trimmedHeading = heading.trim();
+	if (trimmedHeading === '') {
+		return appendBlock(note, block);
+	}
+
+	const level = trimmedHeading.match(/^#+/)?.[0].length || 0;
+	const lines = note.split('\n');
+	const start = lines.findIndex(line => line.trim() === trimmedHeading);
+	if (start === -1) {
+		return appendBlock(note, `${trimmedHeading}\n\n${block}`);
+	}
+
+	// The section ends at the next heading of the same or a higher level, outside code blocks
+	let end = lines.length;
+	let inFence = false;
+	for (let i = start + 1; i < lines.length; i++) {
+		if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence;
+		const nextLevel = lines[i].match(/^(#{1,6})\s/)?.[1].length;
+		if (!inFence && nextLevel && level > 0 && nextLevel <= level) {
+			end = i;
+			break;
+		}
+	}
+
+	// Insert after the section's last non-empty line
+	let insertAt = end;
+	while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') {
+		insertAt--;
+	}
+
+	// Blank lines between the section and the next heading collapse into one
+	const result = [...lines.slice(0, insertAt), '', ...block.split('\n')];
+	if (end < lines.length) {
+		return [...result, '', ...lines.slice(end)].join('\n');
+	}
+	return `${result.join('\n')}\n`;
+}
+
+export function appendBlock(note: string, block: string): string {
+	const body = note.replace(/\s+$/, '');
+	return body === '' ? `${block}\n` : `${body}\n\n${block}\n`;
+}
+
+// Today's daily note path from the core Daily notes plugin's folder and date format
+export function getDailyNotePath(options: DailyNoteOptions, date: Date): string {
+	const name = formatDate(date, options.format || 'YYYY-MM-DD');
+	const folder = options.folder.trim().replace(/^\/+|\/+$/g, '');
+	return folder ? `${folder}/${name}.md` : `${name}.md`;
+}
+
+export function pickNote(app: App): Promise<TFile | null> {
+	return new Promise(resolve => {
+		new NotePickerModal(app, resolve).open();
+	});
+}
+
+class NotePickerModal extends FuzzySuggestModal<TFile> {
+	onResolve: (file: TFile | null) => void;
+	chosen: TFile | null = null;
+
+	constructor(app: App, onResolve: (file: TFile | null) => void) {
+		super(app);
+		this.onResolve = onResolve;
+		this.setPlaceholder('Append clipboard to note...');
+	}
+
+	getItems(): TFile[] {
+		// Recently modified notes first
+		return this.app.vault.getMarkdownFiles().sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.chosen = file;
+	}
+
+	onClose() {
+		// onChooseItem runs after onClose, so the result is resolved once both had a chance to run
+		window.setTimeout(() => this.onResolve(this.chosen), 0);
+	}
+}
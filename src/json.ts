@@ -0,0 +1,31 @@
+// JSON values embedded in other text: model replies, inline page scripts
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+// Parse the object or array that opens at text[start]; brackets inside strings are skipped
+export function parseBalancedJson(text: string, start: number): unknown {
+	const open = text[start];
+	const close = CLOSERS[open];
+	if (!close) return undefined;
+
+	let depth = 0;
+	let inString = false;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (char === '\\') i++;
+			else if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === open) {
+			depth++;
+		} else if (char === close && --depth === 0) {
+			try {
+				return JSON.parse(text.substring(start, i + 1));
+			} catch (error) {
+				return undefined;
+			}
+		}
+	}
+	return undefined;
+}
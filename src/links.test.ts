@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseHtml } from './fixtures';
+import { HEADING_LINK_ATTRIBUTE, rewriteLinks } from './links';
+
+const PAGE_URL = 'https://example.com/docs/page#top';
+
+function rewrite(html: string): Element {
+	const doc = parseHtml(html);
+	rewriteLinks(doc.body, { pageUrl: PAGE_URL, baseUrl: PAGE_URL, findNote: () => undefined });
+	return doc.body;
+}
+
+test('anchors into the page link the heading of their section', () => {
+	const body = rewrite('<h2>Setup</h2><p id="install">Install it.</p><p><a href="#install">see above</a></p>');
+	assert.equal(body.querySelector('a')?.getAttribute(HEADING_LINK_ATTRIBUTE), 'Setup');
+});
+
+test('anchors without a heading keep a link to the web page', () => {
+	const body = rewrite('<p id="note">Note.</p><p><a href="#note">note</a> and <a href="other#x">other</a></p>');
+	const links = Array.from(body.querySelectorAll('a')).map(anchor => anchor.getAttribute('href'));
+	assert.deepEqual(links, ['https://example.com/docs/page#note', 'https://example.com/docs/other#x']);
+});
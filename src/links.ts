@@ -0,0 +1,125 @@
+// Links of a clipped page, rewritten before the page is converted to markdown: relative links
+// resolved against the page's <base href>, in-page anchors mapped to the heading they point into,
+// and links to pages that were clipped before marked so they become [[wikilinks]]
+import { resolveUrl } from './url';
+
+// Attributes read by the turndown rules in pipeline.ts
+export const HEADING_LINK_ATTRIBUTE = 'data-clip-heading';
+export const NOTE_LINK_ATTRIBUTE = 'data-clip-note';
+
+const HEADINGS = 'h1, h2, h3, h4, h5, h6';
+// Node.DOCUMENT_POSITION_FOLLOWING, the Node global is not there outside the browser
+const DOCUMENT_POSITION_FOLLOWING = 4;
+
+export interface LinkOptions {
+	pageUrl: string;
+	// URL that relative links are resolved against, see getBaseUrl
+	baseUrl: string;
+	// Link target (path without ".md") of the note clipped from a URL, if there is one
+	findNote: (url: string) => string | undefined;
+}
+
+// The page's <base href> (itself relative to the page URL), or the page URL
+export function getBaseUrl(doc: Document, pageUrl: string): string {
+	const href = doc.querySelector('base[href]')?.getAttribute('href')?.trim();
+	return (href && resolveUrl(href, pageUrl)) || pageUrl;
+}
+
+export function rewriteLinks(root: Element, options: LinkOptions) {
+	const doc = root.ownerDocument;
+	const pageWithoutHash = options.pageUrl.replace(/#.*$/, '');
+	const anchors = Array.from(root.querySelectorAll('a[href]'));
+
+	// "¶" and "#" permalinks inside headings point at their own heading and would end up in its text
+	for (const anchor of anchors) {
+		const heading = anchor.closest(HEADINGS);
+		if (heading && findTargetHeading(doc, getFragment(anchor, options, pageWithoutHash)) === heading) {
+			anchor.remove();
+		}
+	}
+
+	for (const anchor of anchors) {
+		if (!anchor.isConnected) continue;
+		const href = anchor.getAttribute('href') || '';
+
+		if (/^\s*javascript:/i.test(href)) {
+			unwrap(anchor);
+			continue;
+		}
+
+		const fragment = getFragment(anchor, options, pageWithoutHash);
+		if (fragment !== undefined) {
+			// Anchors into the page link the heading of their section; without one the link goes
+			// to that spot on the web page
+			const heading = findTargetHeading(doc, fragment);
+			if (heading) {
+				anchor.setAttribute(HEADING_LINK_ATTRIBUTE, headingText(heading));
+			} else {
+				anchor.setAttribute('href', fragment ? `${pageWithoutHash}#${fragment}` : pageWithoutHash);
+			}
+			continue;
+		}
+
+		const absolute = resolveUrl(href, options.baseUrl);
+		if (!absolute) continue;
+		anchor.setAttribute('href', absolute);
+
+		const note = /^https?:/.test(absolute) ? options.findNote(absolute) : undefined;
+		if (note) {
+			anchor.setAttribute(NOTE_LINK_ATTRIBUTE, note);
+		}
+	}
+}
+
+// Heading text as Obsidian matches it in links: "#", "|", "^", ":" and brackets are left out
+export function headingText(heading: Element): string {
+	return (heading.textContent || '')
+		.replace(/[#|^:[\]]/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+// Link alias; "|" and brackets would end the wikilink
+export function formatWikilink(target: string, alias: string): string {
+	const text = alias.replace(/[[\]|]/g, ' ').replace(/\s+/g, ' ').trim();
+	return text && text !== target ? `[[${target}|${text}]]` : `[[${target}]]`;
+}
+
+// Fragment of a link into the page itself ("#intro", or the page URL with "#intro")
+function getFragment(anchor: Element, options: LinkOptions, pageWithoutHash: string): string | undefined {
+	const href = (anchor.getAttribute('href') || '').trim();
+	if (href.startsWith('#')) {
+		return href.substring(1);
+	}
+	const absolute = resolveUrl(href, options.baseUrl);
+	if (!absolute || !absolute.includes('#')) return undefined;
+	const [withoutHash, hash] = [absolute.substring(0, absolute.indexOf('#')), absolute.substring(absolute.indexOf('#') + 1)];
+	return withoutHash === pageWithoutHash ? hash : undefined;
+}
+
+// The heading an anchor target is, sits in, starts with, or otherwise follows
+function findTargetHeading(doc: Document, fragment: string | undefined): Element | null {
+	if (!fragment) return null;
+	let id = fragment;
+	try {
+		id = decodeURIComponent(fragment);
+	} catch (error) {
+		// Malformed escape, look the fragment up as it is
+	}
+	const target = doc.getElementById(id) || doc.getElementsByName(id)[0];
+	if (!target) return null;
+
+	const heading = target.closest(HEADINGS) || target.querySelector(HEADINGS);
+	if (heading) return heading;
+
+	let preceding: Element | null = null;
+	for (const candidate of Array.from(doc.querySelectorAll(HEADINGS))) {
+		if (!(candidate.compareDocumentPosition(target) & DOCUMENT_POSITION_FOLLOWING)) break;
+		preceding = candidate;
+	}
+	return preceding;
+}
+
+function unwrap(element: Element) {
+	element.replaceWith(...Array.from(element.childNodes));
+}
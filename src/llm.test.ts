@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseJsonReply, parseStringList } from './llm';
+
+test('the value that opens first in a reply is parsed', () => {
+	assert.deepEqual(parseJsonReply('Here it is: {"title": "A", "key_points": ["one", "two"]} Done.'), { title: 'A', key_points: ['one', 'two'] });
+	assert.deepEqual(parseJsonReply('Tags: ["a", "b"] and {"x": 1}'), ['a', 'b']);
+	assert.deepEqual(parseJsonReply('Summary of [the page]: {"summary": "S"}'), { summary: 'S' });
+});
+
+test('fenced and bare JSON replies', () => {
+	assert.deepEqual(parseJsonReply('```json\n{"summary": "S"}\n```'), { summary: 'S' });
+	assert.deepEqual(parseJsonReply(' [1, 2] '), [1, 2]);
+	assert.equal(parseJsonReply('no JSON here'), undefined);
+});
+
+test('tag lists from arrays, objects and plain text', () => {
+	assert.deepEqual(parseStringList('{"tags": ["a", "b"]}'), ['a', 'b']);
+	assert.deepEqual(parseStringList('a, b\nc'), ['a', 'b', 'c']);
+});
@@ -0,0 +1,323 @@
+// LLM providers: OpenAI-compatible chat completions (OpenAI, Ollama, llama.cpp, LM Studio, ...)
+// and the Anthropic messages API. HTTP goes through an injected request function so the
+// plugin can use Obsidian's requestUrl (no CORS) and other callers their own client.
+import { parseBalancedJson } from './json';
+
+export type LLMProviderType = 'openai' | 'anthropic';
+
+export interface LLMSettings {
+	provider: LLMProviderType;
+	baseUrl: string;
+	apiKey: string;
+	model: string;
+	temperature: number;
+	// Request timeout in seconds
+	timeout: number;
+	// Approximate token budget for note content sent to the model
+	maxInputTokens: number;
+}
+
+export interface LLMPreset {
+	name: string;
+	provider: LLMProviderType;
+	baseUrl: string;
+	model: string;
+}
+
+export const LLM_PRESETS: Record<string, LLMPreset> = {
+	openai: { name: 'OpenAI', provider: 'openai', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+	anthropic: { name: 'Anthropic', provider: 'anthropic', baseUrl: 'https://api.anthropic.com/v1', model: 'claude-3-5-haiku-latest' },
+	ollama: { name: 'Ollama', provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+	lmstudio: { name: 'LM Studio', provider: 'openai', baseUrl: 'http://localhost:1234/v1', model: 'local-model' },
+	llamacpp: { name: 'llama.cpp server', provider: 'openai', baseUrl: 'http://localhost:8080/v1', model: 'default' }
+};
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+	provider: 'openai',
+	baseUrl: LLM_PRESETS.openai.baseUrl,
+	apiKey: '',
+	model: LLM_PRESETS.openai.model,
+	temperature: 0.3,
+	timeout: 30,
+	maxInputTokens: 3000
+};
+
+export interface HttpRequest {
+	url: string;
+	method: string;
+	headers: Record<string, string>;
+	body?: string;
+}
+
+export interface HttpResponse {
+	status: number;
+	text: string;
+}
+
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+export interface CompletionRequest {
+	system: string;
+	prompt: string;
+	maxTokens: number;
+}
+
+export interface LLMProvider {
+	complete(request: CompletionRequest): Promise<string>;
+}
+
+export function createLLMProvider(settings: LLMSettings, http: HttpClient): LLMProvider {
+	return settings.provider === 'anthropic'
+		? new AnthropicProvider(settings, http)
+		: new OpenAICompatibleProvider(settings, http);
+}
+
+// Local servers (Ollama, LM Studio, llama.cpp) do not need an API key
+export function isLLMConfigured(settings: LLMSettings): boolean {
+	if (!settings.baseUrl || !settings.model) return false;
+	return settings.apiKey !== '' || isLocalUrl(settings.baseUrl);
+}
+
+function isLocalUrl(url: string): boolean {
+	try {
+		const hostname = new URL(url).hostname;
+		return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '::1' || hostname.endsWith('.local') || /^(10|192\.168|172\.(1[6-9]|2\d|3[01]))\./.test(hostname);
+	} catch (error) {
+		return false;
+	}
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+	settings: LLMSettings;
+	http: HttpClient;
+
+	constructor(settings: LLMSettings, http: HttpClient) {
+		this.settings = settings;
+		this.http = http;
+	}
+
+	async complete(request: CompletionRequest): Promise<string> {
+		const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+		if (this.settings.apiKey) {
+			headers['Authorization'] = `Bearer ${this.settings.apiKey}`;
+		}
+
+		const data = await sendJson(this.http, this.settings, {
+			url: joinUrl(this.settings.baseUrl, 'chat/completions'),
+			method: 'POST',
+			headers,
+			body: JSON.stringify({
+				model: this.settings.model,
+				messages: [
+					{ role: 'system', content: request.system },
+					{ role: 'user', content: request.prompt }
+				],
+				temperature: this.settings.temperature,
+				max_tokens: request.maxTokens
+			})
+		});
+
+		const choices = isRecord(data) && Array.isArray(data.choices) ? data.choices : [];
+		const message = isRecord(choices[0]) ? choices[0].message : undefined;
+		const content = isRecord(message) ? message.content : undefined;
+		if (typeof content !== 'string') {
+			throw new Error('Unexpected response format: no message content');
+		}
+		return content.trim();
+	}
+}
+
+class AnthropicProvider implements LLMProvider {
+	settings: LLMSettings;
+	http: HttpClient;
+
+	constructor(settings: LLMSettings, http: HttpClient) {
+		this.settings = settings;
+		this.http = http;
+	}
+
+	async complete(request: CompletionRequest): Promise<string> {
+		const data = await sendJson(this.http, this.settings, {
+			url: joinUrl(this.settings.baseUrl, 'messages'),
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'x-api-key': this.settings.apiKey,
+				'anthropic-version': '2023-06-01'
+			},
+			body: JSON.stringify({
+				model: this.settings.model,
+				system: request.system,
+				messages: [{ role: 'user', content: request.prompt }],
+				temperature: this.settings.temperature,
+				max_tokens: request.maxTokens
+			})
+		});
+
+		const blocks: unknown[] = isRecord(data) && Array.isArray(data.content) ? data.content : [];
+		const text = blocks
+			.map(block => isRecord(block) && block.type === 'text' && typeof block.text === 'string' ? block.text : '')
+			.join('');
+		if (!text) {
+			throw new Error('Unexpected response format: no text content');
+		}
+		return text.trim();
+	}
+}
+
+// Parsed response body; the providers check its shape
+async function sendJson(http: HttpClient, settings: LLMSettings, request: HttpRequest): Promise<unknown> {
+	const timeoutMs = Math.max(1, settings.timeout) * 1000;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(new Error(`Request timed out after ${settings.timeout}s`)), timeoutMs);
+	});
+
+	let response: HttpResponse;
+	try {
+		response = await Promise.race([http(request), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+
+	if (response.status < 200 || response.status >= 300) {
+		throw new Error(`HTTP ${response.status}: ${describeError(response.text)}`);
+	}
+
+	try {
+		return JSON.parse(response.text);
+	} catch (error) {
+		throw new Error(`Invalid JSON response: ${response.text.substring(0, 200)}`);
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Pull the message out of OpenAI/Anthropic style error bodies
+function describeError(body: string): string {
+	try {
+		const data = JSON.parse(body);
+		const message = data?.error?.message || data?.message || data?.error;
+		if (typeof message === 'string') return message;
+	} catch (error) {
+		// Not JSON, fall through to the raw body
+	}
+	return body.substring(0, 200) || 'Request failed';
+}
+
+function joinUrl(baseUrl: string, path: string): string {
+	return `${baseUrl.replace(/\/+$/, '')}/${path}`;
+}
+
+// Parse a JSON value from a model reply that may wrap it in prose or a ``` fence
+export function parseJsonReply(reply: string): unknown {
+	const fenced = reply.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/);
+	const candidate = (fenced ? fenced[1] : reply).trim();
+
+	try {
+		return JSON.parse(candidate);
+	} catch (error) {
+		// Fall back to the first balanced array or object in the text
+	}
+
+	// Whichever opens first is the value; a "[1]" inside an object is part of it
+	const starts = ['[', '{']
+		.map(open => candidate.indexOf(open))
+		.filter(start => start !== -1)
+		.sort((a, b) => a - b);
+	for (const start of starts) {
+		const value = parseBalancedJson(candidate, start);
+		if (value !== undefined) return value;
+	}
+
+	return undefined;
+}
+
+// Tag lists: JSON arrays (possibly fenced) or, failing that, comma/line separated names
+export function parseStringList(reply: string): string[] {
+	const parsed = parseJsonReply(reply);
+	let values: unknown[] = [];
+
+	if (Array.isArray(parsed)) {
+		values = parsed;
+	} else if (parsed && typeof parsed === 'object') {
+		const list = Object.values(parsed as Record<string, unknown>).find(Array.isArray);
+		values = list || [];
+	} else {
+		values = reply
+			.replace(/```\w*/g, '')
+			.split(/[\n,]/)
+			.map(line => line.replace(/^\s*([-*•]|\d+[.)])\s*/, ''));
+	}
+
+	return values
+		.filter((v): v is string => typeof v === 'string')
+		.map(v => v.trim().replace(/^["'#]+|["']+$/g, ''))
+		.filter(v => v.length > 0);
+}
+
+// Roughly four characters per token; cut at a paragraph or sentence boundary when possible
+export function truncateToTokenBudget(text: string, maxTokens: number): string {
+	const maxChars = Math.max(0, maxTokens) * 4;
+	if (maxChars === 0 || text.length <= maxChars) {
+		return text;
+	}
+
+	const slice = text.substring(0, maxChars);
+	const boundary = Math.max(slice.lastIndexOf('\n\n'), slice.lastIndexOf('. '));
+	const cut = boundary > maxChars * 0.7 ? slice.substring(0, boundary + 1) : slice;
+	return `${cut.trim()}\n[...]`;
+}
+
+export interface SummaryOptions {
+	title: boolean;
+	summary: boolean;
+	keyPoints: boolean;
+	maxInputTokens: number;
+	// Existing title (e.g. the page's <title>) as a hint for the model
+	currentTitle?: string;
+}
+
+export interface ContentSummary {
+	title?: string;
+	summary?: string;
+	keyPoints: string[];
+}
+
+// Ask the model for a concise title, a short summary and key points in one request
+export async function summarizeContent(provider: LLMProvider, content: string, options: SummaryOptions): Promise<ContentSummary> {
+	const fields: string[] = [];
+	if (options.title) fields.push('"title": a concise, descriptive title of at most 80 characters, without the site name');
+	if (options.summary) fields.push('"summary": a summary of two to three sentences');
+	if (options.keyPoints) fields.push('"key_points": an array of three to six short key points');
+
+	if (fields.length === 0) {
+		return { keyPoints: [] };
+	}
+
+	const hint = options.currentTitle ? `Current title: ${options.currentTitle}\n\n` : '';
+	const reply = await provider.complete({
+		system: `You summarize notes. Reply with a JSON object with these fields:\n${fields.join('\n')}\nWrite in the language of the content. Reply with the JSON object only.`,
+		prompt: `${hint}Content:\n${truncateToTokenBudget(content, options.maxInputTokens)}`,
+		maxTokens: 600
+	});
+
+	const parsed = parseJsonReply(reply);
+	if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+		throw new Error(`Unexpected summary reply: ${reply.substring(0, 200)}`);
+	}
+
+	const data = parsed as Record<string, unknown>;
+	const text = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.replace(/\s+/g, ' ').trim() : undefined;
+	const points = data.key_points || data.keyPoints;
+
+	return {
+		title: options.title ? text(data.title)?.replace(/^["'#\s]+|["'\s]+$/g, '') : undefined,
+		summary: options.summary ? text(data.summary) : undefined,
+		keyPoints: options.keyPoints && Array.isArray(points)
+			? points.map(text).filter((p): p is string => !!p)
+			: []
+	};
+}
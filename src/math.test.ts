@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { convertFixture, parseHtml, readFixture } from './fixtures';
+import { MATH_ATTRIBUTE, formatMath, getTex, markMath, mathmlToTex } from './math';
+
+test('math fixture converts to inline and display math', () => {
+	assert.equal(convertFixture('fixtures/math.html'), readFixture('fixtures/math.md').trim());
+});
+
+test('MathML without TeX source is converted from its presentation markup', () => {
+	const doc = parseHtml('<math><msubsup><mo>∫</mo><mn>0</mn><mi>∞</mi></msubsup><msup><mi>e</mi><mrow><mo>−</mo><mi>x</mi></mrow></msup><mi>d</mi><mi>x</mi></math>');
+	assert.equal(mathmlToTex(doc.querySelector('math')!), '\\int_{0}^{\\infty}e^{-x}dx');
+});
+
+test('fenced MathML and matrices', () => {
+	const doc = parseHtml('<math><mfenced open="[" close="]"><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>0</mn></mtd></mtr><mtr><mtd><mn>0</mn></mtd><mtd><mn>1</mn></mtd></mtr></mtable></mfenced></math>');
+	assert.equal(mathmlToTex(doc.querySelector('math')!), '\\left[ \\begin{matrix} 1 & 0 \\\\ 0 & 1 \\end{matrix} \\right]');
+});
+
+test('the TeX annotation wins over alttext and Wikipedia\'s \\displaystyle wrapper is removed', () => {
+	const doc = parseHtml('<math alttext="x"><semantics><mi>y</mi><annotation encoding="application/x-tex">{\\displaystyle y^{2}}</annotation></semantics></math>');
+	assert.equal(getTex(doc.querySelector('math')!), 'y^{2}');
+});
+
+test('display math in a table cell stays inline', () => {
+	assert.equal(formatMath('a|b', true, true), '$a\\vert b$');
+	assert.equal(formatMath(' x ', true), '\n\n$$\nx\n$$\n\n');
+	assert.equal(formatMath('  ', false), '');
+});
+
+test('math markers replace the rendered output', () => {
+	const doc = parseHtml('<p><span class="MathJax_Preview">x</span><span class="MathJax">x</span><script type="math/tex">x</script></p>');
+	markMath(doc.body);
+	assert.equal(doc.body.innerHTML, `<p><span ${MATH_ATTRIBUTE}="inline">x</span></p>`);
+});
@@ -0,0 +1,202 @@
+// Math on web pages as TeX: MathML (with its TeX annotation when there is one), KaTeX, MathJax
+// and Wikipedia's math markup are replaced by marker elements holding the TeX, before the
+// page is cleaned up and converted; the turndown rule in turndown-rules.ts writes $...$ and $$...$$
+
+// Marker elements carry "inline" or "display" in this attribute and the TeX as their text
+export const MATH_ATTRIBUTE = 'data-clip-math';
+
+// Rendered output next to the markup the TeX is read from
+const RENDERED_MATH = [
+	'.MathJax_Preview',
+	'.MathJax',
+	'.MathJax_Display',
+	'.MathJax_SVG',
+	'.MathJax_SVG_Display',
+	'.MathJax_CHTML',
+	'img.mwe-math-fallback-image-inline',
+	'img.mwe-math-fallback-image-display'
+].join(', ');
+
+// Operators and identifiers written as commands
+const SYMBOLS: Record<string, string> = {
+	'α': '\\alpha', 'β': '\\beta', 'γ': '\\gamma', 'δ': '\\delta', 'ε': '\\epsilon', 'ϵ': '\\epsilon', 'ζ': '\\zeta',
+	'η': '\\eta', 'θ': '\\theta', 'ϑ': '\\vartheta', 'ι': '\\iota', 'κ': '\\kappa', 'λ': '\\lambda', 'μ': '\\mu',
+	'ν': '\\nu', 'ξ': '\\xi', 'π': '\\pi', 'ρ': '\\rho', 'σ': '\\sigma', 'ς': '\\varsigma', 'τ': '\\tau',
+	'υ': '\\upsilon', 'φ': '\\phi', 'ϕ': '\\phi', 'χ': '\\chi', 'ψ': '\\psi', 'ω': '\\omega',
+	'Γ': '\\Gamma', 'Δ': '\\Delta', 'Θ': '\\Theta', 'Λ': '\\Lambda', 'Ξ': '\\Xi', 'Π': '\\Pi', 'Σ': '\\Sigma',
+	'Υ': '\\Upsilon', 'Φ': '\\Phi', 'Ψ': '\\Psi', 'Ω': '\\Omega',
+	'∑': '\\sum', '∏': '\\prod', '∫': '\\int', '∮': '\\oint', '∂': '\\partial', '∇': '\\nabla', '∞': '\\infty',
+	'≤': '\\leq', '≥': '\\geq', '≠': '\\neq', '≈': '\\approx', '≡': '\\equiv', '∼': '\\sim', '∝': '\\propto',
+	'×': '\\times', '÷': '\\div', '·': '\\cdot', '⋅': '\\cdot', '∘': '\\circ', '±': '\\pm', '∓': '\\mp', '−': '-',
+	'∈': '\\in', '∉': '\\notin', '⊂': '\\subset', '⊆': '\\subseteq', '⊃': '\\supset', '⊇': '\\supseteq',
+	'∪': '\\cup', '∩': '\\cap', '∅': '\\emptyset', '∀': '\\forall', '∃': '\\exists', '¬': '\\neg',
+	'∧': '\\wedge', '∨': '\\vee', '→': '\\to', '←': '\\leftarrow', '↦': '\\mapsto', '⇒': '\\Rightarrow',
+	'⇔': '\\Leftrightarrow', '↔': '\\leftrightarrow', '…': '\\ldots', '⋯': '\\cdots', '⋮': '\\vdots',
+	'′': "'", '″': "''", '∣': '\\mid', '‖': '\\|', '⟨': '\\langle', '⟩': '\\rangle', '⌊': '\\lfloor',
+	'⌋': '\\rfloor', '⌈': '\\lceil', '⌉': '\\rceil', '{': '\\{', '}': '\\}', 'ℝ': '\\mathbb{R}',
+	'ℕ': '\\mathbb{N}', 'ℤ': '\\mathbb{Z}', 'ℚ': '\\mathbb{Q}', 'ℂ': '\\mathbb{C}', 'ℓ': '\\ell',
+	// Invisible times, function application and separator
+	'⁢': '', '⁡': '', '⁣': ''
+};
+
+// Multi-letter identifiers that TeX knows as operators
+const FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+	'log', 'ln', 'lg', 'exp', 'lim', 'liminf', 'limsup', 'min', 'max', 'sup', 'inf', 'det', 'dim', 'ker', 'deg',
+	'arg', 'gcd', 'Pr'];
+
+// Characters over or under a base that are accents
+const ACCENTS: Record<string, string> = {
+	'^': '\\hat', 'ˆ': '\\hat', '~': '\\tilde', '˜': '\\tilde', '¯': '\\bar', '‾': '\\overline', '_': '\\underline',
+	'→': '\\vec', '⃗': '\\vec', '˙': '\\dot', '¨': '\\ddot', '︷': '\\overbrace', '︸': '\\underbrace'
+};
+
+export function markMath(root: Element) {
+	const doc = root.ownerDocument;
+	const replace = (element: Element, tex: string, display: boolean) => {
+		const marker = doc.createElement('span');
+		marker.setAttribute(MATH_ATTRIBUTE, display ? 'display' : 'inline');
+		marker.textContent = tex;
+		element.replaceWith(marker);
+	};
+
+	// KaTeX keeps its MathML, with the TeX source as annotation, next to the rendered HTML
+	for (const katex of Array.from(root.querySelectorAll('.katex-display, .katex'))) {
+		if (!katex.isConnected) continue;
+		const math = katex.querySelector('math');
+		if (math) replace(katex, getTex(math), katex.classList.contains('katex-display'));
+	}
+
+	// Wikipedia: hidden MathML with a fallback image
+	for (const element of Array.from(root.querySelectorAll('.mwe-math-element'))) {
+		const math = element.querySelector('math');
+		if (!math) continue;
+		const display = math.getAttribute('display') === 'block' || !!element.querySelector('.mwe-math-mathml-display, .mwe-math-fallback-image-display');
+		replace(element, getTex(math), display);
+	}
+
+	// MathJax 3 keeps MathML for screen readers; MathJax 2 keeps the TeX in a script
+	for (const container of Array.from(root.querySelectorAll('mjx-container'))) {
+		const math = container.querySelector('math');
+		if (math) replace(container, getTex(math), container.getAttribute('display') === 'true');
+	}
+	for (const script of Array.from(root.querySelectorAll('script[type^="math/tex"]'))) {
+		replace(script, (script.textContent || '').trim(), /mode\s*=\s*display/.test(script.getAttribute('type') || ''));
+	}
+
+	for (const math of Array.from(root.querySelectorAll('math'))) {
+		replace(math, getTex(math), math.getAttribute('display') === 'block' || math.getAttribute('mode') === 'display');
+	}
+
+	for (const rendered of Array.from(root.querySelectorAll(RENDERED_MATH))) {
+		rendered.remove();
+	}
+}
+
+// Math in markdown; inside table cells "|" would end the cell
+export function formatMath(tex: string, display: boolean, inTable = false): string {
+	let source = tex.trim();
+	if (!source) return '';
+	if (inTable) {
+		source = source.replace(/\\\|/g, '\\Vert ').replace(/\|/g, '\\vert ').trim();
+	}
+	return display && !inTable ? `\n\n$$\n${source}\n$$\n\n` : `$${source}$`;
+}
+
+// TeX of a MathML element: its TeX annotation, the alttext set by LaTeXML and others, or a
+// conversion of the presentation markup
+export function getTex(math: Element): string {
+	const annotation = Array.from(math.querySelectorAll('annotation'))
+		.find(element => /tex/i.test(element.getAttribute('encoding') || ''));
+	const source = annotation?.textContent?.trim() || math.getAttribute('alttext')?.trim() || mathmlToTex(math);
+	// Wikipedia wraps every formula in {\displaystyle ...}
+	const wrapped = source.match(/^\{\\displaystyle\s*([\s\S]*)\}$/);
+	return wrapped ? wrapped[1].trim() : source;
+}
+
+export function mathmlToTex(element: Element): string {
+	const children = Array.from(element.children);
+	const child = (index: number) => children[index] ? mathmlToTex(children[index]) : '';
+	const text = (element.textContent || '').trim();
+
+	switch (element.localName) {
+		case 'mi':
+			if (FUNCTIONS.includes(text)) return `\\${text}`;
+			if (text.length > 1 && !(text in SYMBOLS)) return `\\mathrm{${text}}`;
+			return symbol(text);
+		case 'mn':
+			return text;
+		case 'mo':
+			return symbol(text);
+		case 'mtext':
+			return text ? `\\text{${text}}` : '';
+		case 'mspace':
+			return '\\ ';
+		case 'msup':
+			return `${group(child(0))}^{${child(1)}}`;
+		case 'msub':
+			return `${group(child(0))}_{${child(1)}}`;
+		case 'msubsup':
+			return `${group(child(0))}_{${child(1)}}^{${child(2)}}`;
+		case 'mfrac':
+			return `\\frac{${child(0)}}{${child(1)}}`;
+		case 'msqrt':
+			return `\\sqrt{${joinTex(children.map(mathmlToTex))}}`;
+		case 'mroot':
+			return `\\sqrt[${child(1)}]{${child(0)}}`;
+		case 'mover':
+		case 'munder': {
+			const mark = (children[1]?.textContent || '').trim();
+			if (ACCENTS[mark]) return `${ACCENTS[mark]}{${child(0)}}`;
+			if (isLargeOperator(children[0])) return `${child(0)}${element.localName === 'mover' ? '^' : '_'}{${child(1)}}`;
+			return `${element.localName === 'mover' ? '\\overset' : '\\underset'}{${child(1)}}{${child(0)}}`;
+		}
+		case 'munderover':
+			return `${group(child(0))}_{${child(1)}}^{${child(2)}}`;
+		case 'mfenced': {
+			const attribute = (name: string, fallback: string) => element.hasAttribute(name) ? element.getAttribute(name) || '' : fallback;
+			const open = attribute('open', '(');
+			const close = attribute('close', ')');
+			const separator = attribute('separators', ',').trim().charAt(0);
+			return `\\left${delimiter(open)} ${children.map(mathmlToTex).join(separator ? `${separator} ` : ' ')} \\right${delimiter(close)}`;
+		}
+		case 'mtable':
+			return `\\begin{matrix} ${children.map(row => Array.from(row.children).map(mathmlToTex).join(' & ')).join(' \\\\ ')} \\end{matrix}`;
+		case 'mphantom':
+		case 'annotation':
+		case 'annotation-xml':
+			return '';
+		case 'semantics':
+			return child(0);
+		default:
+			return joinTex(children.map(mathmlToTex));
+	}
+}
+
+// Base of a script: one character or command as it is, anything longer in braces
+function group(tex: string): string {
+	return tex.length === 1 || /^\\[a-zA-Z]+$/.test(tex) ? tex : `{${tex}}`;
+}
+
+// Unicode operators and identifiers as commands; the invisible operators map to nothing
+function symbol(text: string): string {
+	return text in SYMBOLS ? SYMBOLS[text] : text;
+}
+
+function delimiter(character: string): string {
+	return character ? symbol(character) : '.';
+}
+
+function isLargeOperator(element: Element | undefined): boolean {
+	const text = (element?.textContent || '').trim();
+	return ['∑', '∏', '∫', '∮', '⋃', '⋂', 'lim', 'max', 'min', 'sup', 'inf'].includes(text);
+}
+
+// Commands need a space before a following letter, or "\alpha b" would become "\alphab"
+function joinTex(parts: string[]): string {
+	let result = '';
+	for (const part of parts) {
+		if (!part) continue;
+		result += /\\[a-zA-Z]+$/.test(result) && /^[a-zA-Z0-9]/.test(part) ? ` ${part}` : part;
+	}
+	return result;
+}
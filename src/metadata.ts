@@ -0,0 +1,196 @@
+// Page metadata extraction from OpenGraph, Twitter cards, standard meta tags and schema.org JSON-LD
+import { resolveUrl, stripTrackingParams } from './url';
+
+export interface PageMetadata {
+	title?: string;
+	author: string[];
+	published?: string;
+	site?: string;
+	description?: string;
+	canonical?: string;
+	image?: string;
+}
+
+// schema.org types whose properties describe the page's main content
+const ARTICLE_TYPES = /Article|BlogPosting|Report|ScholarlyArticle|TechArticle|WebPage|CreativeWork|Recipe|VideoObject|Book|Review|Question/;
+
+type JsonLdNode = { [key: string]: unknown };
+
+export function extractPageMetadata(doc: Document, pageUrl: string): PageMetadata {
+	const meta = (...names: string[]): string | undefined => {
+		for (const name of names) {
+			const el = doc.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`);
+			const value = el?.getAttribute('content')?.trim();
+			if (value) return value;
+		}
+		return undefined;
+	};
+	const metaAll = (...names: string[]): string[] => {
+		const values: string[] = [];
+		for (const name of names) {
+			const elements = Array.from(doc.querySelectorAll(`meta[property="${name}"], meta[name="${name}"]`));
+			for (const el of elements) {
+				const value = el.getAttribute('content')?.trim();
+				if (value) values.push(value);
+			}
+		}
+		return values;
+	};
+
+	const jsonLd = findJsonLdArticle(doc);
+
+	const site = meta('og:site_name', 'application-name', 'twitter:site') ||
+		stringValue(jsonLd?.publisher) ||
+		undefined;
+
+	const rawTitle = meta('og:title', 'twitter:title', 'citation_title', 'dc.title') ||
+		stringValue(jsonLd?.headline) ||
+		stringValue(jsonLd?.name) ||
+		doc.querySelector('title')?.textContent?.trim() ||
+		undefined;
+
+	// Authors: JSON-LD first (structured), then meta tags. Profile URLs are not names.
+	let author = listValue(jsonLd?.author);
+	if (author.length === 0) {
+		author = metaAll('citation_author', 'author', 'article:author', 'dc.creator', 'parsely-author', 'sailthru.author')
+			.filter(a => !/^https?:\/\//.test(a));
+	}
+	if (author.length === 0) {
+		const creator = meta('twitter:creator');
+		if (creator) author = [creator];
+	}
+
+	const published = normalizeDate(
+		meta('article:published_time', 'citation_publication_date', 'citation_date', 'date', 'dc.date', 'dc.date.issued', 'pubdate', 'publishdate', 'og:published_time') ||
+		stringValue(jsonLd?.datePublished) ||
+		doc.querySelector('time[datetime]')?.getAttribute('datetime') ||
+		undefined
+	);
+
+	const description = meta('og:description', 'twitter:description', 'description') ||
+		stringValue(jsonLd?.description) ||
+		undefined;
+
+	const canonicalHref = doc.querySelector('link[rel="canonical"]')?.getAttribute('href') ||
+		meta('og:url') ||
+		stringValue(jsonLd?.url) ||
+		undefined;
+	const canonical = canonicalHref ? resolveUrl(canonicalHref, pageUrl) : undefined;
+
+	const imageHref = meta('og:image', 'og:image:url', 'og:image:secure_url', 'twitter:image', 'twitter:image:src') ||
+		stringValue(jsonLd?.image) ||
+		undefined;
+	const image = imageHref ? resolveUrl(imageHref, pageUrl) : undefined;
+
+	return {
+		title: rawTitle ? cleanTitle(rawTitle, site) : undefined,
+		author: dedupe(author.map(a => a.replace(/^by\s+/i, '').trim()).filter(a => a.length > 0)),
+		published,
+		site,
+		description: description ? description.replace(/\s+/g, ' ') : undefined,
+		canonical: canonical && /^https?:/.test(canonical) ? stripTrackingParams(canonical) : undefined,
+		image
+	};
+}
+
+// Remove the site name that many pages append or prepend to <title>
+function cleanTitle(title: string, site?: string): string {
+	const normalized = title.replace(/\s+/g, ' ').trim();
+	const separators = / [|\-–—·:•»] /;
+	const parts = normalized.split(separators);
+	if (parts.length < 2) return normalized;
+
+	if (site) {
+		const lowerSite = site.toLowerCase().replace(/^@/, '');
+		const remaining = parts.filter(p => {
+			const lowerPart = p.toLowerCase();
+			return !(lowerPart === lowerSite || lowerSite.includes(lowerPart) || lowerPart.includes(lowerSite) && lowerPart.length - lowerSite.length < 5);
+		});
+		if (remaining.length > 0 && remaining.length < parts.length) {
+			return remaining.join(' - ');
+		}
+	}
+
+	// Without a known site name, drop a short trailing segment ("Article title | Example")
+	const last = parts[parts.length - 1];
+	const rest = parts.slice(0, -1).join(' - ');
+	if (last.split(' ').length <= 3 && rest.length > last.length * 2) {
+		return rest;
+	}
+
+	return normalized;
+}
+
+function findJsonLdArticle(doc: Document): JsonLdNode | undefined {
+	const nodes: JsonLdNode[] = [];
+	const scripts = Array.from(doc.querySelectorAll('script[type="application/ld+json"]'));
+
+	for (const script of scripts) {
+		try {
+			collectNodes(JSON.parse(script.textContent || ''), nodes);
+		} catch (error) {
+			console.log('Skipping invalid JSON-LD block:', error);
+		}
+	}
+
+	const typeOf = (node: JsonLdNode) => {
+		const type = node['@type'];
+		return Array.isArray(type) ? type.join(' ') : String(type || '');
+	};
+
+	// Prefer articles over generic web pages
+	return nodes.find(n => ARTICLE_TYPES.test(typeOf(n)) && !/WebPage/.test(typeOf(n))) ||
+		nodes.find(n => ARTICLE_TYPES.test(typeOf(n)));
+}
+
+function collectNodes(value: unknown, nodes: JsonLdNode[]) {
+	if (Array.isArray(value)) {
+		for (const item of value) collectNodes(item, nodes);
+	} else if (value && typeof value === 'object') {
+		const node = value as JsonLdNode;
+		nodes.push(node);
+		if (node['@graph']) collectNodes(node['@graph'], nodes);
+		if (node.mainEntity) collectNodes(node.mainEntity, nodes);
+	}
+}
+
+// JSON-LD values can be strings, objects with a name/url or arrays of either
+function stringValue(value: unknown): string | undefined {
+	if (typeof value === 'string') return value.trim() || undefined;
+	if (Array.isArray(value)) return value.length > 0 ? stringValue(value[0]) : undefined;
+	if (value && typeof value === 'object') {
+		const node = value as JsonLdNode;
+		return stringValue(node.name) || stringValue(node.url) || stringValue(node['@id']);
+	}
+	return undefined;
+}
+
+function listValue(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		return value.map(v => stringValue(v)).filter((v): v is string => !!v && !/^https?:\/\//.test(v));
+	}
+	const single = stringValue(value);
+	return single && !/^https?:\/\//.test(single) ? [single] : [];
+}
+
+// Published dates become YYYY-MM-DD so Obsidian treats them as date properties
+function normalizeDate(value?: string): string | undefined {
+	if (!value) return undefined;
+	const isoMatch = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+	if (isoMatch) {
+		return `${isoMatch[1]}-${isoMatch[2].padStart(2, '0')}-${isoMatch[3].padStart(2, '0')}`;
+	}
+	const date = new Date(value);
+	if (isNaN(date.getTime())) return undefined;
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function dedupe(values: string[]): string[] {
+	const seen = new Set<string>();
+	return values.filter(v => {
+		const key = v.toLowerCase();
+		if (seen.has(key)) return false;
+		seen.add(key);
+		return true;
+	});
+}
@@ -0,0 +1,282 @@
+// Clip environment of the command line tool: a vault folder on disk, Node's fetch and jsdom.
+// Attachment locations and links follow the vault's own settings in <config dir>/app.json,
+// the same ones Obsidian uses.
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSDOM } from 'jsdom';
+import { ClipEnvironment, VaultAdapter, VaultFile } from './adapters';
+import { normalizePath } from './paths';
+
+interface VaultConfig {
+	// "/" for the vault root, "./" for the note's folder, "./name" for a subfolder of it, or a folder path
+	attachmentFolderPath: string;
+	useMarkdownLinks: boolean;
+	newLinkFormat: 'shortest' | 'relative' | 'absolute';
+}
+
+const DEFAULT_VAULT_CONFIG: VaultConfig = {
+	attachmentFolderPath: '/',
+	useMarkdownLinks: false,
+	newLinkFormat: 'shortest'
+};
+
+export function createNodeEnvironment(vaultPath: string, configDir: string, notify: (message: string) => void): ClipEnvironment {
+	return {
+		vault: new NodeVault(vaultPath, configDir),
+		fetch: async request => {
+			const response = await fetch(request.url, {
+				method: request.method,
+				headers: request.headers,
+				body: request.body,
+				redirect: 'follow'
+			});
+			const arrayBuffer = await response.arrayBuffer();
+			const headers: Record<string, string> = {};
+			response.headers.forEach((value, name) => {
+				headers[name] = value;
+			});
+			return {
+				status: response.status,
+				headers,
+				get text() {
+					return new TextDecoder().decode(arrayBuffer);
+				},
+				arrayBuffer
+			};
+		},
+		parseHtml: html => new JSDOM(html).window.document,
+		notify
+	};
+}
+
+// Reads the plugin's data.json in the vault, so the tool clips with the same settings as the plugin
+export function readPluginData(vaultPath: string, configDir: string, pluginId: string): Record<string, unknown> {
+	const file = path.join(vaultPath, configDir, 'plugins', pluginId, 'data.json');
+	return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+}
+
+class NodeVault implements VaultAdapter {
+	root: string;
+	config: VaultConfig;
+
+	constructor(root: string, configDir: string) {
+		this.root = root;
+		const configFile = path.join(root, configDir, 'app.json');
+		const config = fs.existsSync(configFile) ? JSON.parse(fs.readFileSync(configFile, 'utf8')) : {};
+		this.config = Object.assign({}, DEFAULT_VAULT_CONFIG, config);
+	}
+
+	fullPath(vaultPath: string): string {
+		return vaultPath === '/' ? this.root : path.join(this.root, ...vaultPath.split('/'));
+	}
+
+	exists(vaultPath: string): boolean {
+		return fs.existsSync(this.fullPath(vaultPath));
+	}
+
+	async read(vaultPath: string): Promise<string> {
+		return await fs.promises.readFile(this.fullPath(vaultPath), 'utf8');
+	}
+
+	async readBinary(vaultPath: string): Promise<ArrayBuffer> {
+		const data = await fs.promises.readFile(this.fullPath(vaultPath));
+		return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+	}
+
+	// Like Obsidian, creating a file fails when it exists already
+	async create(vaultPath: string, content: string): Promise<void> {
+		await fs.promises.writeFile(this.fullPath(vaultPath), content, { encoding: 'utf8', flag: 'wx' });
+	}
+
+	async modify(vaultPath: string, content: string): Promise<void> {
+		await fs.promises.writeFile(this.fullPath(vaultPath), content, 'utf8');
+	}
+
+	async createBinary(vaultPath: string, data: ArrayBuffer): Promise<void> {
+		await fs.promises.writeFile(this.fullPath(vaultPath), Buffer.from(data), { flag: 'wx' });
+	}
+
+	async createFolder(vaultPath: string): Promise<void> {
+		await fs.promises.mkdir(this.fullPath(vaultPath), { recursive: true });
+	}
+
+	// Hidden files and folders (the config folder, .git, .trash) are not part of the vault
+	walk(): { files: VaultFile[]; folders: string[] } {
+		const files: VaultFile[] = [];
+		const folders: string[] = [];
+		const visit = (folder: string) => {
+			for (const entry of fs.readdirSync(this.fullPath(folder || '/'), { withFileTypes: true })) {
+				if (entry.name.startsWith('.')) continue;
+				const entryPath = folder ? `${folder}/${entry.name}` : entry.name;
+				if (entry.isDirectory()) {
+					folders.push(entryPath);
+					visit(entryPath);
+				} else if (entry.isFile()) {
+					const stat = fs.statSync(this.fullPath(entryPath));
+					const dot = entry.name.lastIndexOf('.');
+					files.push({
+						path: entryPath,
+						extension: dot > 0 ? entry.name.substring(dot + 1) : '',
+						size: stat.size,
+						mtime: stat.mtimeMs
+					});
+				}
+			}
+		};
+		visit('');
+		return { files, folders };
+	}
+
+	getFiles(): VaultFile[] {
+		return this.walk().files;
+	}
+
+	getFolders(): string[] {
+		return this.walk().folders;
+	}
+
+	getTagCounts(): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const file of this.getFiles()) {
+			if (file.extension !== 'md') continue;
+			const noteTags = new Set(extractNoteTags(fs.readFileSync(this.fullPath(file.path), 'utf8')));
+			noteTags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+		}
+		return counts;
+	}
+
+	getFrontmatter(vaultPath: string): Record<string, unknown> | undefined {
+		const file = this.fullPath(vaultPath);
+		return fs.existsSync(file) ? parseFrontmatter(fs.readFileSync(file, 'utf8')) : undefined;
+	}
+
+	// Obsidian's rules for "Default location for new attachments"; taken names get " 1", " 2", ...
+	async getAvailablePathForAttachment(filename: string, notePath: string): Promise<string> {
+		const setting = this.config.attachmentFolderPath.trim() || '/';
+		const noteFolder = notePath.includes('/') ? notePath.substring(0, notePath.lastIndexOf('/')) : '';
+		let folder: string;
+		if (setting === '/') {
+			folder = '';
+		} else if (setting === '.' || setting === './') {
+			folder = noteFolder;
+		} else if (setting.startsWith('./')) {
+			folder = noteFolder ? `${noteFolder}/${setting.substring(2)}` : setting.substring(2);
+		} else {
+			folder = setting;
+		}
+		folder = normalizePath(folder);
+		if (folder !== '/' && !this.exists(folder)) {
+			await this.createFolder(folder);
+		}
+
+		const dot = filename.lastIndexOf('.');
+		const base = dot > 0 ? filename.substring(0, dot) : filename;
+		const extension = dot > 0 ? filename.substring(dot) : '';
+		const prefix = folder === '/' ? '' : `${folder}/`;
+		let candidate = `${prefix}${filename}`;
+		for (let counter = 1; this.exists(candidate); counter++) {
+			candidate = `${prefix}${base} ${counter}${extension}`;
+		}
+		return candidate;
+	}
+
+	generateMarkdownLink(vaultPath: string, sourcePath: string, alias: string): string {
+		const isNote = vaultPath.endsWith('.md');
+		const name = vaultPath.split('/').pop() || vaultPath;
+
+		let linkPath = vaultPath;
+		if (this.config.newLinkFormat === 'relative') {
+			const sourceFolder = sourcePath.includes('/') ? sourcePath.substring(0, sourcePath.lastIndexOf('/')) : '';
+			linkPath = path.posix.relative(sourceFolder || '.', vaultPath);
+		} else if (this.config.newLinkFormat === 'shortest') {
+			const sameName = this.getFiles().filter(file => file.path.split('/').pop() === name);
+			linkPath = sameName.length <= 1 ? name : vaultPath;
+		}
+		if (isNote) {
+			linkPath = linkPath.replace(/\.md$/, '');
+		}
+
+		const embed = isNote ? '' : '!';
+		if (this.config.useMarkdownLinks) {
+			return `${embed}[${alias}](${encodeURI(isNote ? `${linkPath}.md` : linkPath)})`;
+		}
+		return `${embed}[[${linkPath}${alias ? `|${alias}` : ''}]]`;
+	}
+}
+
+// Top-level frontmatter properties: plain and quoted strings, flow lists and "- " item lists;
+// nested values are not needed by the pipeline and are left out
+function parseFrontmatter(markdown: string): Record<string, unknown> | undefined {
+	const frontmatter = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
+	if (!frontmatter) return undefined;
+
+	const unquote = (value: string) => {
+		const trimmed = value.trim();
+		if (/^"[\s\S]*"$/.test(trimmed)) {
+			try {
+				return JSON.parse(trimmed) as string;
+			} catch (error) {
+				return trimmed.slice(1, -1);
+			}
+		}
+		return /^'[\s\S]*'$/.test(trimmed) ? trimmed.slice(1, -1).replace(/''/g, '\'') : trimmed;
+	};
+
+	const properties: Record<string, unknown> = {};
+	let listKey: string | undefined;
+	for (const line of frontmatter[1].split(/\r?\n/)) {
+		const item = line.match(/^\s+-\s+(.*)$/);
+		if (item && listKey) {
+			(properties[listKey] as string[]).push(unquote(item[1]));
+			continue;
+		}
+		const property = line.match(/^([^\s:#][^:]*):(?:\s+(.*))?$/);
+		if (!property) continue;
+		const key = property[1].trim();
+		const value = (property[2] || '').trim();
+		listKey = undefined;
+		if (value === '') {
+			properties[key] = [];
+			listKey = key;
+		} else if (/^\[.*\]$/.test(value)) {
+			properties[key] = value.slice(1, -1).split(',').map(unquote).filter(entry => entry !== '');
+		} else {
+			properties[key] = unquote(value);
+		}
+	}
+	return properties;
+}
+
+// Frontmatter tags (list or inline) and inline #tags outside code
+function extractNoteTags(markdown: string): string[] {
+	const tags: string[] = [];
+	let body = markdown;
+
+	const frontmatter = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---(\r?\n|$)/);
+	if (frontmatter) {
+		body = markdown.substring(frontmatter[0].length);
+		const lines = frontmatter[1].split(/\r?\n/);
+		const start = lines.findIndex(line => /^tags?:/.test(line));
+		if (start !== -1) {
+			const inline = lines[start].replace(/^tags?:/, '').trim();
+			if (inline !== '') {
+				tags.push(...inline.replace(/^\[|\]$/g, '').split(','));
+			} else {
+				for (let i = start + 1; i < lines.length && /^\s+-\s/.test(lines[i]); i++) {
+					tags.push(lines[i].replace(/^\s+-\s/, ''));
+				}
+			}
+		}
+	}
+
+	const text = body.replace(/```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`/g, '');
+	const inlineTag = /(^|\s)#([^\s#.,;:!?'"()[\]{}]+)/g;
+	let match;
+	while ((match = inlineTag.exec(text)) !== null) {
+		tags.push(match[2]);
+	}
+
+	return tags
+		.map(tag => tag.trim().replace(/^["']|["']$/g, '').replace(/^#/, ''))
+		.filter(tag => tag !== '' && !/^\d+$/.test(tag));
+}
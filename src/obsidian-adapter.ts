@@ -0,0 +1,114 @@
+// Clip environment of the plugin: the vault through Obsidian's API, requestUrl (which
+// bypasses CORS), the built-in DOMParser and PDF.js, and notices
+import { App, Notice, TFile, getAllTags, loadPdfJs, requestUrl } from 'obsidian';
+import { ClipEnvironment, VaultAdapter, VaultFile } from './adapters';
+
+export function createObsidianEnvironment(app: App): ClipEnvironment {
+	return {
+		vault: new ObsidianVault(app),
+		fetch: async request => {
+			const response = await requestUrl({
+				url: request.url,
+				method: request.method,
+				headers: request.headers,
+				body: request.body,
+				throw: false
+			});
+			return {
+				status: response.status,
+				headers: response.headers,
+				// Decoded on first use only, downloaded images never need it
+				get text() {
+					return response.text;
+				},
+				arrayBuffer: response.arrayBuffer
+			};
+		},
+		parseHtml: html => new DOMParser().parseFromString(html, 'text/html'),
+		notify: message => {
+			new Notice(message);
+		},
+		loadPdfJs: () => loadPdfJs()
+	};
+}
+
+class ObsidianVault implements VaultAdapter {
+	app: App;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	exists(path: string): boolean {
+		return this.app.vault.getAbstractFileByPath(path) !== null;
+	}
+
+	async read(path: string): Promise<string> {
+		return await this.app.vault.read(this.getFile(path));
+	}
+
+	async readBinary(path: string): Promise<ArrayBuffer> {
+		return await this.app.vault.readBinary(this.getFile(path));
+	}
+
+	async create(path: string, content: string): Promise<void> {
+		await this.app.vault.create(path, content);
+	}
+
+	async modify(path: string, content: string): Promise<void> {
+		await this.app.vault.modify(this.getFile(path), content);
+	}
+
+	async createBinary(path: string, data: ArrayBuffer): Promise<void> {
+		await this.app.vault.createBinary(path, data);
+	}
+
+	async createFolder(path: string): Promise<void> {
+		await this.app.vault.createFolder(path);
+	}
+
+	getFiles(): VaultFile[] {
+		return this.app.vault.getFiles().map(file => ({
+			path: file.path,
+			extension: file.extension,
+			size: file.stat.size,
+			mtime: file.stat.mtime
+		}));
+	}
+
+	getFolders(): string[] {
+		return this.app.vault.getAllFolders().map(folder => folder.path);
+	}
+
+	// Frontmatter and inline tags from the metadata cache, each counted once per note
+	getTagCounts(): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (!cache) continue;
+			const noteTags = new Set((getAllTags(cache) || []).map(tag => tag.replace(/^#/, '')));
+			noteTags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+		}
+		return counts;
+	}
+
+	getFrontmatter(path: string): Record<string, unknown> | undefined {
+		return this.app.metadataCache.getCache(path)?.frontmatter;
+	}
+
+	async getAvailablePathForAttachment(filename: string, notePath: string): Promise<string> {
+		return await this.app.fileManager.getAvailablePathForAttachment(filename, notePath);
+	}
+
+	generateMarkdownLink(path: string, sourcePath: string, alias: string): string {
+		return this.app.fileManager.generateMarkdownLink(this.getFile(path), sourcePath, undefined, alias);
+	}
+
+	getFile(path: string): TFile {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			throw new Error(`File not found: ${path}`);
+		}
+		return file;
+	}
+}
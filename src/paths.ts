@@ -0,0 +1,10 @@
+// Vault path normalization, the same as Obsidian's normalizePath, so the plugin and the
+// command line tool name notes and attachments identically
+export function normalizePath(path: string): string {
+	let normalized = path
+		.replace(/[\\/]+/g, '/')
+		.replace(/^\/+|\/+$/g, '')
+		.replace(/[\u00A0\u202F]/g, ' ');
+	if (normalized === '') normalized = '/';
+	return normalized.normalize('NFC');
+}
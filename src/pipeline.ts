@@ -0,0 +1,1109 @@
+// The clip pipeline: fetching and converting pages and documents, clipboard text and HTML,
+// tags, titles and summaries, routing, templates, note naming and attachments. It runs
+// against a ClipEnvironment, so the plugin and the command line tool write the same notes.
+import TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+import { ClipEnvironment, FetchResponse } from './adapters';
+import { buildArchive, readArchiveMarkdown } from './archive';
+import { classifyText } from './classify';
+import { ClipboardContent, ClipboardImage, getImageExtension, parseClipboardHtml } from './clipboard';
+import { runWithConcurrency } from './concurrency';
+import { ContentKind, detectContentKind, extractPdfContent, formatJson, getHeader, getMarkdownTitle, getUrlFilename, stripFrontmatter } from './documents';
+import { withClipMarker } from './duplicates';
+import { SiteExtractor, findSiteExtractor } from './extractors';
+import { appendMissingFootnotes, markFootnotes } from './footnotes';
+import { ImageLimits, ImageReport, appendImageReport, checkImageLimits, decodeDataUri, hashImage, resolveImageSources, sniffImageExtension } from './images';
+import { HEADING_LINK_ATTRIBUTE, NOTE_LINK_ATTRIBUTE, formatWikilink, getBaseUrl, rewriteLinks } from './links';
+import { LLMProvider, createLLMProvider, isLLMConfigured, parseStringList, summarizeContent, truncateToTokenBudget } from './llm';
+import { markMath } from './math';
+import { PageMetadata, extractPageMetadata } from './metadata';
+import { normalizePath } from './paths';
+import { extractMainContent } from './readability';
+import { QUOTE_KINDS, extractSourceUrl, formatQuoteNote } from './quotes';
+import { ReviewResult } from './review';
+import { ClipType, RoutingRule, findMatchingRule } from './routing';
+import { ClipboardToNoteSettings } from './settings';
+import { TURNDOWN_OPTIONS, clipRules } from './turndown-rules';
+import { TagCandidate, buildTagVocabulary, sanitizeTag, sanitizeTags, scoreTags } from './tags';
+import { DEFAULT_DATE_FORMAT, DEFAULT_TEXT_TEMPLATE, DEFAULT_URL_TEMPLATE, NoteData, TemplateKind, TemplateValue, buildTemplateVariables, formatDate, renderTemplate } from './template';
+import { extractUrls, normalizeUrl, resolveUrl, stripTrackingParams } from './url';
+import { hashText } from './watch';
+
+// Upper bound on vocabulary tags listed in the LLM prompt
+const MAX_LLM_TAG_CANDIDATES = 300;
+
+// Frontmatter properties that may hold the URL a note was clipped from
+const SOURCE_FRONTMATTER_KEYS = ['sources', 'source', 'url', 'canonical'];
+
+// Attachments compared by content when an image is downloaded again
+const IMAGE_FILE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'avif', 'svg', 'bmp', 'ico', 'tiff'];
+
+// Clipboard content converted to markdown, ready to be written as a note
+export interface ProcessedClip {
+	type: ClipType;
+	title: string;
+	content: string;
+	tags: string[];
+	sourceUrl?: string;
+	// Page URL that relative links and images were resolved against
+	baseUrl: string;
+	metadata?: PageMetadata;
+	// Extra frontmatter from a site extractor
+	properties?: Record<string, TemplateValue>;
+	selection?: string;
+	// LLM-generated summary for the frontmatter
+	summary?: string;
+	// Clipboard images that are saved as attachments once the note path is known
+	images: ClipboardImage[];
+	// Files fetched from the clipped URL (a PDF, an image), saved and embedded above the content
+	attachments?: { data: ArrayBuffer; filename: string }[];
+	// Whether the content may reference remote images that can be downloaded
+	hasRemoteImages: boolean;
+	// Destination folder chosen by the caller (a protocol link), ahead of the routing rules
+	folder?: string;
+	// The fetched web page, kept for an offline archive
+	page?: { html: string; url: string; fetchedAt: Date };
+	// Markdown as converted from the page, before the summary and downloaded images; archived
+	// and hashed so a re-clip compares like with like
+	converted?: string;
+}
+
+export class ClipPipeline {
+	settings: ClipboardToNoteSettings;
+	env: ClipEnvironment;
+	turndownService: TurndownService;
+	// Paths reserved by writes in progress, so concurrent batch clips and downloads never collide
+	pendingPaths = new Set<string>();
+	// Content hashes of vault images by path and modification time
+	imageHashes = new Map<string, string>();
+
+	constructor(settings: ClipboardToNoteSettings, env: ClipEnvironment) {
+		this.settings = settings;
+		this.env = env;
+
+		// Initialize Turndown
+		this.turndownService = new TurndownService(TURNDOWN_OPTIONS);
+
+		// Add GFM (GitHub Flavored Markdown) support for tables, strikethrough, etc.
+		this.turndownService.use(gfm);
+		// Math, footnotes, figure captions, <details>, <mark>, <sup> and <sub>
+		this.turndownService.use(clipRules);
+
+		// Links marked by rewriteLinks: anchors into the page and pages that have a note already
+		this.turndownService.addRule('headingLinks', {
+			filter: node => node.nodeName === 'A' && node.hasAttribute(HEADING_LINK_ATTRIBUTE),
+			replacement: (content, node) => formatWikilink(`#${(node as Element).getAttribute(HEADING_LINK_ATTRIBUTE)}`, content)
+		});
+		this.turndownService.addRule('noteLinks', {
+			filter: node => node.nodeName === 'A' && node.hasAttribute(NOTE_LINK_ATTRIBUTE),
+			replacement: (content, node) => formatWikilink((node as Element).getAttribute(NOTE_LINK_ATTRIBUTE) || '', content)
+		});
+	}
+
+	getLLMProvider(): LLMProvider {
+		return createLLMProvider(this.settings.llm, this.env.fetch);
+	}
+
+	// LLM-powered tag suggestion
+	async suggestTagsLLM(text: string): Promise<string[]> {
+		if (!isLLMConfigured(this.settings.llm)) {
+			console.log('LLM provider not configured, falling back to keyword matching');
+			return this.suggestTagsKeyword(text);
+		}
+
+		try {
+			// Candidate tags: the vault's vocabulary, most used first, capped to keep the prompt small
+			const vocabulary = this.getTagVocabulary().slice(0, MAX_LLM_TAG_CANDIDATES).map(candidate => candidate.tag);
+
+			if (vocabulary.length === 0) {
+				return [];
+			}
+			const maxTags = this.settings.maxTags;
+
+			// Keep the request within the configured token budget
+			const noteContent = truncateToTokenBudget(text, this.settings.llm.maxInputTokens);
+
+			const reply = await this.getLLMProvider().complete({
+				system: `You are a helpful assistant that suggests relevant tags for notes based on their content. You will be given note content and a list of available tags. Nested tags use "/" (e.g. research/ml); return them with their full path. Return only the ${maxTags} most relevant tags as a JSON array of strings. The tags must be from the provided list.`,
+				prompt: `Note content:\n${noteContent}\n\nAvailable tags:\n${vocabulary.join(', ')}\n\nReturn the ${maxTags} most relevant tags as a JSON array.`,
+				maxTokens: 100
+			});
+
+			// Only accept tags from the list, matched case-insensitively
+			const available = new Map(vocabulary.map(tag => [tag.toLowerCase(), tag]));
+			const tags = parseStringList(reply)
+				.map(tag => available.get(sanitizeTag(tag).toLowerCase()))
+				.filter((tag): tag is string => !!tag);
+
+			if (tags.length > 0) {
+				console.log('LLM suggested tags:', tags);
+				return tags.slice(0, maxTags);
+			}
+
+			console.log('LLM reply contained no usable tags:', reply);
+			return this.suggestTagsKeyword(text);
+		} catch (error) {
+			console.error('Error calling LLM provider:', error);
+			return this.suggestTagsKeyword(text);
+		}
+	}
+
+	async suggestTags(text: string): Promise<string[]> {
+		return this.settings.useLLM
+			? await this.suggestTagsLLM(text)
+			: this.suggestTagsKeyword(text);
+	}
+
+	async testLLMConnection(): Promise<string> {
+		return await this.getLLMProvider().complete({
+			system: 'You are a connection test. Reply with the single word OK.',
+			prompt: 'Reply with OK.',
+			maxTokens: 10
+		});
+	}
+
+	// Tags used in the vault (frontmatter and inline) with usage counts, optionally merged with folder paths
+	getTagVocabulary(): TagCandidate[] {
+		const folderPaths = this.env.vault.getFolders().filter(path => path !== '' && path !== '/');
+		return buildTagVocabulary(this.env.vault.getTagCounts(), folderPaths, this.settings.includeFolderTags);
+	}
+
+	// Simple keyword-based tag suggestion (fallback)
+	suggestTagsKeyword(text: string): string[] {
+		return scoreTags(text, this.getTagVocabulary(), {
+			maxTags: this.settings.maxTags,
+			minScore: this.settings.minTagScore
+		});
+	}
+
+	getVaultTags(): string[] {
+		return this.getTagVocabulary().map(candidate => candidate.tag);
+	}
+
+	isURL(text: string): boolean {
+		const trimmed = text.trim();
+		// Check if it's a single line and starts with http/https
+		if (trimmed.split('\n').length > 1) return false;
+		return /^https?:\/\/.+/.test(trimmed);
+	}
+
+	async fetchURL(url: string): Promise<FetchResponse> {
+		const response = await this.env.fetch({
+			url: url,
+			method: 'GET',
+			headers: {
+				'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+			}
+		});
+
+		if (response.status !== 200) {
+			throw new Error(`HTTP ${response.status}: Failed to fetch URL`);
+		}
+		if (response.arrayBuffer.byteLength === 0) {
+			throw new Error('Received empty response from URL');
+		}
+		return response;
+	}
+
+	convertHtmlPage(html: string, url: string, extractor?: SiteExtractor): { title: string; content: string; metadata: PageMetadata; properties: Record<string, TemplateValue> } {
+		const doc = this.env.parseHtml(html);
+
+		// Extract OpenGraph, Twitter card, meta tag and JSON-LD metadata before the body is cleaned up
+		const metadata = extractPageMetadata(doc, url);
+
+		// Lazy-loaded and responsive images get their real, largest source before conversion, and links
+		// their absolute URL, a heading in the note, or a wikilink to the note of a page clipped before
+		const baseUrl = getBaseUrl(doc, url);
+		resolveImageSources(doc.body, baseUrl);
+		// Math becomes TeX and footnotes are marked before the cleanup, which would remove MathJax
+		// scripts and footnote asides, and before footnote links could become heading links
+		markMath(doc.body);
+		const footnotes = markFootnotes(doc.body);
+		const clippedNotes = this.getClippedNotes();
+		const pageUrl = normalizeUrl(url);
+		rewriteLinks(doc.body, {
+			pageUrl: url,
+			baseUrl,
+			findNote: link => {
+				const normalized = normalizeUrl(link);
+				const path = normalized !== pageUrl ? clippedNotes.get(normalized) : undefined;
+				return path ? this.getLinkTarget(path) : undefined;
+			}
+		});
+
+		if (extractor) {
+			const page = extractor.extract({
+				doc,
+				url: new URL(url),
+				toMarkdown: element => this.turndownService.turndown(element)
+			});
+			if (page) {
+				console.log('Page extracted with the site extractor for', extractor.name);
+				if (page.author.length > 0) metadata.author = page.author;
+				if (page.published) metadata.published = page.published;
+				return { title: page.title, content: page.content, metadata, properties: page.properties };
+			}
+			console.log(`${extractor.name} extractor found no content, using the generic extraction`);
+		}
+
+		// Extract title (metadata titles have the site name removed)
+		let title = metadata.title ||
+					doc.querySelector('h1')?.textContent ||
+					'Web Clipping';
+		title = title.trim();
+
+		// Keep only the article body so navigation, banners and footers are not converted.
+		// Images outside the main content are dropped here too, so they are never downloaded.
+		let contentElement: HTMLElement = doc.body;
+		if (this.settings.extractMainContent) {
+			const extraction = extractMainContent(doc);
+			console.log('Main content extracted using method:', extraction.method);
+			contentElement = extraction.element;
+			appendMissingFootnotes(contentElement, footnotes);
+		}
+
+		// Convert HTML to markdown using Turndown
+		const markdown = this.turndownService.turndown(contentElement);
+
+		return { title, content: markdown, metadata, properties: {} };
+	}
+
+	// Save an attachment where Obsidian's "Default location for new attachments" puts it,
+	// or in a folder named after the note when images get their own subfolder
+	async saveAttachment(data: ArrayBuffer, filename: string, notePath: string): Promise<string> {
+		const safeFilename = filename.replace(/[\\/:*?"<>|#^[\]]/g, '-');
+		let path = await this.env.vault.getAvailablePathForAttachment(safeFilename, notePath);
+
+		if (this.settings.imageSubfolder) {
+			const noteName = notePath.split('/').pop()?.replace(/\.md$/, '') || 'Untitled';
+			const parent = path.substring(0, path.lastIndexOf('/'));
+			const folder = normalizePath(parent ? `${parent}/${noteName}` : noteName);
+			await this.ensureFolderExists(folder);
+			path = normalizePath(`${folder}/${safeFilename}`);
+		}
+
+		// Parallel downloads may be given the same path before either file exists
+		const dot = path.lastIndexOf('.');
+		const base = dot > path.lastIndexOf('/') ? path.substring(0, dot) : path;
+		const extension = dot > path.lastIndexOf('/') ? path.substring(dot) : '';
+		let finalPath = path;
+		let counter = 1;
+		while (this.env.vault.exists(finalPath) || this.pendingPaths.has(finalPath)) {
+			finalPath = `${base}-${counter}${extension}`;
+			counter++;
+		}
+
+		this.pendingPaths.add(finalPath);
+		try {
+			await this.env.vault.createBinary(finalPath, data);
+			return finalPath;
+		} finally {
+			this.pendingPaths.delete(finalPath);
+		}
+	}
+
+	// Embed of an attachment following the vault's link settings (wikilink or markdown, link path format)
+	embedLink(path: string, notePath: string, alt = ''): string {
+		// Numbers after "|" would resize the image, and brackets or pipes would end the link early
+		const caption = alt.replace(/[[\]|\n\r]+/g, ' ').trim();
+		const link = this.env.vault.generateMarkdownLink(path, notePath, /^\d+(x\d+)?$/.test(caption) ? '' : caption);
+		return link.startsWith('!') ? link : `!${link}`;
+	}
+
+	// Downloaded images are named "<prefix>_<name>" unless they get a folder of their own
+	imageFilename(prefix: string, name: string, extension: string): string {
+		return this.settings.imageSubfolder ? `${name}.${extension}` : `${prefix}_${name}.${extension}`;
+	}
+
+	async generateTitle(text: string): Promise<string> {
+		// Simple title generation: take first sentence or first 50 chars
+		const firstLine = text.trim().split('\n')[0];
+		const cleaned = firstLine.replace(/^#+\s*/, '').trim(); // Remove any existing markdown headers
+
+		if (cleaned.length > 50) {
+			return cleaned.substring(0, 50).trim() + '...';
+		}
+
+		return cleaned || 'Untitled Note';
+	}
+
+	formatMarkdown(text: string, title: string): string {
+		let content = text.trim();
+
+		// Remove the title from content if it appears at the beginning
+		// Escape special regex characters in the title
+		const escapedTitle = title.replace(/\.\.\.$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const titlePattern = new RegExp(`^#*\\s*${escapedTitle}`, 'i');
+		content = content.replace(titlePattern, '').trim();
+
+		// Ensure headers don't use H1
+		content = content.replace(/^# /gm, '## ');
+
+		return content;
+	}
+
+	async getTemplate(kind: TemplateKind): Promise<string> {
+		// A template file in the vault takes precedence over the template in settings
+		const templateFile = kind === 'url' ? this.settings.urlTemplateFile : this.settings.textTemplateFile;
+		if (templateFile) {
+			const path = normalizePath(templateFile);
+			if (this.env.vault.exists(path)) {
+				return await this.env.vault.read(path);
+			}
+			console.warn(`Template file not found: ${templateFile}, using template from settings`);
+		}
+
+		const template = kind === 'url' ? this.settings.urlTemplate : this.settings.textTemplate;
+		if (template && template.trim() !== '') {
+			return template;
+		}
+		return kind === 'url' ? DEFAULT_URL_TEMPLATE : DEFAULT_TEXT_TEMPLATE;
+	}
+
+	async renderNote(kind: TemplateKind, data: NoteData, date: Date): Promise<string> {
+		const template = await this.getTemplate(kind);
+		return renderTemplate(template, {
+			variables: buildTemplateVariables(data),
+			date,
+			properties: data.properties
+		});
+	}
+
+	async ensureFolderExists(folderPath: string) {
+		const normalizedPath = normalizePath(folderPath);
+		if (!this.env.vault.exists(normalizedPath)) {
+			console.log(`Creating folder: ${normalizedPath}`);
+			try {
+				await this.env.vault.createFolder(normalizedPath);
+				console.log(`Folder created successfully: ${normalizedPath}`);
+			} catch (error) {
+				console.error(`Failed to create folder ${normalizedPath}:`, error);
+				throw error;
+			}
+		} else {
+			console.log(`Folder already exists: ${normalizedPath}`);
+		}
+	}
+
+	// Turn clipboard content into a title, markdown content and tags, then let the LLM
+	// improve the title and add a summary when configured.
+	// Returns null (after telling the user why) when there is nothing to create a note from.
+	async processClipboard(clipboard: ClipboardContent): Promise<ProcessedClip | null> {
+		const clip = await this.convertClipboard(clipboard);
+		if (clip && clip.type !== 'image') {
+			await this.summarizeClip(clip);
+		}
+		return clip;
+	}
+
+	// Fetch a URL and convert it into a clip; throws when the page cannot be fetched
+	async processURL(url: string): Promise<ProcessedClip> {
+		// Known sites get a dedicated extractor, which may fetch a lighter version of the page
+		const extractor = this.settings.useSiteExtractors ? findSiteExtractor(url) : undefined;
+		const fetchUrl = extractor?.rewriteUrl ? extractor.rewriteUrl(new URL(url)) : url;
+
+		let response: FetchResponse;
+		try {
+			response = await this.fetchURL(fetchUrl);
+		} catch (error) {
+			console.error('Error fetching URL:', error);
+			throw new Error(`Failed to fetch URL: ${error.message}`);
+		}
+
+		// PDFs, images, text and JSON files are not web pages
+		const contentType = getHeader(response.headers, 'content-type');
+		const kind = detectContentKind(contentType, fetchUrl, response.arrayBuffer);
+		console.log(`Fetched ${fetchUrl} as ${kind} (${contentType || 'no content type'})`);
+		if (kind !== 'html') {
+			return await this.processDocument(url, kind, response, contentType);
+		}
+
+		// Links and images are absolute already, resolved against the page's base URL before conversion
+		const { title, content, metadata, properties } = this.convertHtmlPage(response.text, fetchUrl, extractor);
+
+		// Images will be downloaded after creating the note (if enabled)
+		// so we have the note path for proper attachment folder resolution
+
+		// Suggest tags based on page content
+		const tags = await this.suggestTags(content);
+
+		return {
+			type: 'url',
+			title,
+			content,
+			tags,
+			// Record the canonical URL as the source instead of a tracking-parameter URL
+			sourceUrl: metadata.canonical || stripTrackingParams(url),
+			baseUrl: url,
+			metadata,
+			properties,
+			images: [],
+			hasRemoteImages: true,
+			page: { html: response.text, url: fetchUrl, fetchedAt: new Date() },
+			converted: content
+		};
+	}
+
+	// Quote note for a passage copied from a page: the passage, a citation line, and the page's
+	// URL, title and metadata in the frontmatter
+	async processQuote(quote: string, plainText: string, url: string): Promise<ProcessedClip> {
+		this.env.notify('Processing quote...');
+
+		const metadata = await this.fetchPageMetadata(url);
+		const pageTitle = metadata.title || new URL(url).hostname.replace(/^www\./, '');
+		const sourceUrl = metadata.canonical || stripTrackingParams(url);
+
+		const tags = await this.suggestTags(plainText);
+		console.log('Suggested tags:', tags);
+
+		return {
+			type: 'quote',
+			title: `Quote from ${pageTitle}`,
+			content: formatQuoteNote(quote, pageTitle, sourceUrl),
+			tags,
+			sourceUrl,
+			baseUrl: url,
+			metadata,
+			properties: { kind: 'quote', source_title: pageTitle },
+			// The passage as markdown, also what a highlights note collects
+			selection: quote.trim(),
+			images: [],
+			hasRemoteImages: false
+		};
+	}
+
+	// Metadata of the page a quote was copied from; empty when it cannot be fetched, the quote is kept anyway
+	async fetchPageMetadata(url: string): Promise<PageMetadata> {
+		try {
+			const response = await this.fetchURL(url);
+			if (detectContentKind(getHeader(response.headers, 'content-type'), url, response.arrayBuffer) === 'html') {
+				const doc = this.env.parseHtml(response.text);
+				const metadata = extractPageMetadata(doc, url);
+				metadata.title = metadata.title || doc.title.trim() || undefined;
+				return metadata;
+			}
+		} catch (error) {
+			console.log('Could not fetch the quoted page:', error.message);
+		}
+		return { author: [] };
+	}
+
+	// Non-HTML URLs: PDFs and images are saved as attachments, text files are inserted as they are
+	async processDocument(url: string, kind: ContentKind, response: FetchResponse, contentType?: string): Promise<ProcessedClip> {
+		const filename = getUrlFilename(url);
+		const clip: ProcessedClip = {
+			type: 'url',
+			title: filename,
+			content: '',
+			tags: [],
+			sourceUrl: stripTrackingParams(url),
+			baseUrl: url,
+			metadata: { author: [] },
+			images: [],
+			hasRemoteImages: false
+		};
+
+		switch (kind) {
+			case 'pdf': {
+				clip.attachments = [{ data: response.arrayBuffer, filename: `${filename}.pdf` }];
+				if (!this.env.loadPdfJs) break;
+				try {
+					const pdf = await extractPdfContent(await this.env.loadPdfJs(), response.arrayBuffer);
+					clip.title = pdf.title || filename;
+					clip.content = pdf.text;
+					clip.metadata = { author: pdf.author, published: pdf.published };
+					clip.properties = { pages: String(pdf.pages) };
+				} catch (error) {
+					// The PDF is still saved and embedded, only without its text
+					console.error('Error reading PDF text:', error);
+				}
+				break;
+			}
+			case 'image': {
+				const extension = sniffImageExtension(response.arrayBuffer, contentType) || 'png';
+				clip.type = 'image';
+				clip.attachments = [{ data: response.arrayBuffer, filename: `${filename}.${extension}` }];
+				break;
+			}
+			case 'markdown': {
+				clip.title = getMarkdownTitle(response.text, url);
+				clip.content = this.convertRelativeUrls(stripFrontmatter(response.text), url);
+				clip.hasRemoteImages = true;
+				break;
+			}
+			case 'text':
+				clip.content = response.text;
+				break;
+			case 'json':
+				clip.content = formatJson(response.text);
+				break;
+			default:
+				throw new Error(`Unsupported content type: ${contentType || 'unknown'}`);
+		}
+
+		if (clip.content.trim() !== '' && kind !== 'json') {
+			clip.tags = await this.suggestTags(clip.content);
+		}
+		return clip;
+	}
+
+	async convertClipboard(clipboard: ClipboardContent): Promise<ProcessedClip | null> {
+		const clipboardText = clipboard.text || '';
+
+		const hasText = clipboardText.trim() !== '';
+		if (!hasText && !clipboard.html && clipboard.images.length === 0) {
+			this.env.notify('Clipboard is empty');
+			return null;
+		}
+
+		console.log('Clipboard content:', clipboardText.substring(0, 100));
+
+		// Formatted HTML (browsers, Word) is converted instead of the plain text when it carries markup
+		const htmlFragment = clipboard.html ? parseClipboardHtml(clipboard.html, this.env.parseHtml) : null;
+
+		// Check if clipboard contains a URL
+		if (hasText && this.isURL(clipboardText)) {
+			const url = clipboardText.trim();
+			this.env.notify('Fetching content from URL...');
+
+			try {
+				const clip = await this.processURL(url);
+				this.env.notify('URL content fetched successfully');
+				return clip;
+			} catch (error) {
+				this.env.notify(`Failed to fetch URL: ${error.message}`);
+				return null;
+			}
+		}
+
+		// A passage copied from a web page becomes a quote that cites the page
+		const quoteSource = clipboard.html && this.settings.quoteNotes ? extractSourceUrl(clipboard.html) : undefined;
+		if (quoteSource && hasText) {
+			let quote = clipboardText;
+			if (htmlFragment) {
+				resolveImageSources(htmlFragment, quoteSource);
+				markMath(htmlFragment);
+				quote = this.turndownService.turndown(htmlFragment);
+			}
+			return await this.processQuote(quote, clipboardText, quoteSource);
+		}
+
+		if (htmlFragment) {
+			// Formatted clipboard content: keep links, tables and emphasis
+			this.env.notify('Processing formatted clipboard content...');
+
+			resolveImageSources(htmlFragment, '');
+			markMath(htmlFragment);
+			markFootnotes(htmlFragment);
+			const markdown = this.turndownService.turndown(htmlFragment);
+			const plainText = hasText ? clipboardText : htmlFragment.textContent || markdown;
+
+			const title = await this.generateTitle(plainText);
+			console.log('Generated title:', title);
+
+			const tags = await this.suggestTags(plainText);
+			console.log('Suggested tags:', tags);
+
+			return {
+				type: 'text',
+				title,
+				content: this.formatMarkdown(markdown, title),
+				tags,
+				baseUrl: '',
+				selection: plainText.trim(),
+				images: [],
+				hasRemoteImages: true
+			};
+		}
+
+		if (!hasText && clipboard.images.length > 0) {
+			// Screenshot or copied image: the images are saved once the note path is known
+			this.env.notify('Saving clipboard image...');
+
+			return {
+				type: 'image',
+				title: `Clipboard image ${formatDate(new Date(), 'YYYY-MM-DD HH-mm')}`,
+				content: '',
+				tags: [],
+				baseUrl: '',
+				images: clipboard.images,
+				hasRemoteImages: false
+			};
+		}
+
+		// Regular text processing
+		this.env.notify('Processing clipboard content...');
+
+		// Code, JSON/YAML and spreadsheet cells get their markdown form, a title from their structure and a kind tag
+		const classified = classifyText(clipboardText);
+		console.log('Text kind:', classified.kind, classified.language || '');
+
+		const title = classified.title || await this.generateTitle(clipboardText);
+		console.log('Generated title:', title);
+
+		// Suggest tags
+		const tags = sanitizeTags([...classified.tags, ...await this.suggestTags(clipboardText)]);
+		console.log('Suggested tags:', tags);
+
+		// Structured content is kept whole: a "# comment" in code is no heading to demote
+		const structured = classified.kind !== 'prose' && classified.kind !== 'list';
+		return {
+			type: 'text',
+			title,
+			// Format markdown
+			content: structured ? classified.content : this.formatMarkdown(classified.content, title),
+			tags,
+			baseUrl: '',
+			selection: clipboardText.trim(),
+			images: [],
+			hasRemoteImages: false
+		};
+	}
+
+	// LLM-generated title, summary and key points; the heuristic title stays on failure
+	async summarizeClip(clip: ProcessedClip, notify = true) {
+		const { llmTitles, llmSummary, llmKeyPoints } = this.settings;
+		if (!(llmTitles || llmSummary || llmKeyPoints) || !isLLMConfigured(this.settings.llm)) {
+			return;
+		}
+		// Images and PDFs without a text layer have nothing to summarize
+		if (clip.content.trim() === '') {
+			return;
+		}
+
+		try {
+			if (notify) this.env.notify('Generating title and summary...');
+			const result = await summarizeContent(this.getLLMProvider(), clip.content, {
+				title: llmTitles,
+				summary: llmSummary,
+				keyPoints: llmKeyPoints,
+				maxInputTokens: this.settings.llm.maxInputTokens,
+				currentTitle: clip.type === 'url' ? clip.title : undefined
+			});
+			console.log('LLM summary result:', result);
+
+			if (result.title) {
+				clip.title = result.title;
+			}
+			clip.summary = result.summary;
+
+			const callout = this.createSummaryCallout(result.summary, result.keyPoints);
+			if (callout) {
+				clip.content = `${callout}\n\n${clip.content}`;
+			}
+		} catch (error) {
+			console.error('Error generating title and summary:', error);
+			if (notify) this.env.notify(`AI summary failed, using the default title: ${error.message}`);
+		}
+	}
+
+	createSummaryCallout(summary: string | undefined, keyPoints: string[]): string {
+		const lines: string[] = [];
+		if (summary) {
+			lines.push(summary);
+		}
+		if (keyPoints.length > 0) {
+			if (lines.length > 0) lines.push('');
+			lines.push(...keyPoints.map(point => `- ${point}`));
+		}
+		if (lines.length === 0) {
+			return '';
+		}
+		return ['> [!summary] Summary', ...lines.map(line => line ? `> ${line}` : '>')].join('\n');
+	}
+
+	// Apply the first matching routing rule: destination folder plus extra tags
+	routeClip(clip: ProcessedClip): { folder: string; tags: string[]; rule?: RoutingRule } {
+		const rule = findMatchingRule(this.settings.routingRules, {
+			type: clip.type,
+			url: clip.sourceUrl || clip.baseUrl || undefined,
+			tags: clip.tags,
+			text: `${clip.title}\n${clip.content}`
+		});
+
+		if (!rule) {
+			return { folder: clip.folder || this.settings.inboxFolder, tags: clip.tags };
+		}
+
+		const tags = sanitizeTags([...clip.tags, ...rule.tags]);
+		return { folder: clip.folder || rule.folder.trim() || this.settings.inboxFolder, tags, rule };
+	}
+
+	// Note clipped from one of the URLs, found by the source URLs in its frontmatter. Quote and
+	// highlights notes cite a page without being a clip of it; they are only found by their kind
+	findClippedNote(urls: (string | undefined)[], kind?: 'highlights'): string | undefined {
+		const wanted = new Set(urls.filter((url): url is string => !!url).map(normalizeUrl));
+		if (wanted.size === 0) return undefined;
+
+		for (const file of this.env.vault.getFiles()) {
+			if (file.extension !== 'md') continue;
+			const frontmatter = this.env.vault.getFrontmatter(file.path);
+			if (!frontmatter) continue;
+			if (kind ? frontmatter.kind !== kind : QUOTE_KINDS.includes(String(frontmatter.kind))) continue;
+
+			for (const key of SOURCE_FRONTMATTER_KEYS) {
+				if (extractUrls(frontmatter[key]).some(url => wanted.has(normalizeUrl(url)))) {
+					return file.path;
+				}
+			}
+		}
+		return undefined;
+	}
+
+	// Clipped notes by their normalized source URLs, for linking clips to each other
+	getClippedNotes(): Map<string, string> {
+		const notes = new Map<string, string>();
+		for (const file of this.env.vault.getFiles()) {
+			if (file.extension !== 'md') continue;
+			const frontmatter = this.env.vault.getFrontmatter(file.path);
+			if (!frontmatter || QUOTE_KINDS.includes(String(frontmatter.kind))) continue;
+			for (const key of SOURCE_FRONTMATTER_KEYS) {
+				for (const url of extractUrls(frontmatter[key])) {
+					if (!notes.has(normalizeUrl(url))) notes.set(normalizeUrl(url), file.path);
+				}
+			}
+		}
+		return notes;
+	}
+
+	// Source URL of a clipped note, from its frontmatter; quote and highlights notes have none
+	getSourceUrl(path: string): string | undefined {
+		const frontmatter = this.env.vault.getFrontmatter(path);
+		if (!frontmatter || QUOTE_KINDS.includes(String(frontmatter.kind))) return undefined;
+		for (const key of SOURCE_FRONTMATTER_KEYS) {
+			const url = extractUrls(frontmatter[key])[0];
+			if (url) return url;
+		}
+		return undefined;
+	}
+
+	// Converted markdown kept in the archive linked from a note's frontmatter; undefined when the
+	// note has no archive or it was saved without the markdown
+	async readArchivedMarkdown(path: string): Promise<string | undefined> {
+		const target = String(this.env.vault.getFrontmatter(path)?.archive || '').match(/^\[\[([^\]|#]+)/)?.[1];
+		if (!target) return undefined;
+		const archive = this.env.vault.getFiles().find(file => file.path === target || file.path.split('/').pop() === target);
+		if (!archive) return undefined;
+		try {
+			return readArchiveMarkdown(this.env.parseHtml(await this.env.vault.read(archive.path)));
+		} catch (error) {
+			console.error('Error reading archive:', error);
+			return undefined;
+		}
+	}
+
+	// Wikilink target of a note: its name, or its path when another note has the same name
+	getLinkTarget(path: string): string {
+		const name = path.split('/').pop() || path;
+		const sameName = this.env.vault.getFiles().filter(file => file.path.split('/').pop() === name);
+		return (sameName.length > 1 ? path : name).replace(/\.md$/, '');
+	}
+
+	// Write a processed clip as a new note, with attachments and downloaded images
+	async writeNote(clip: ProcessedClip, note: ReviewResult, quiet = false): Promise<string> {
+		const { title, tags, folder, content } = note;
+
+		// Render the note from the template for this source type
+		// Clips with a source URL (web pages, PDFs, image links) use the web clip template
+		const templateKind: TemplateKind = clip.type === 'url' || clip.sourceUrl ? 'url' : 'text';
+		const createdAt = new Date();
+		// Web clips get a marker so a later update can replace the clipped part only
+		const markContent = (value: string) => clip.type === 'url' ? withClipMarker(value) : value;
+		const noteData: NoteData = {
+			title,
+			content: markContent(content),
+			tags,
+			url: clip.sourceUrl,
+			selection: clip.selection,
+			summary: clip.summary,
+			metadata: clip.metadata,
+			properties: clip.properties
+		};
+
+		console.log('Destination folder:', folder);
+
+		// Ensure destination folder exists
+		await this.ensureFolderExists(folder);
+
+		const finalPath = this.getAvailableNotePath(folder, title);
+		console.log('Final file path:', finalPath);
+
+		this.pendingPaths.add(finalPath);
+		try {
+			const noteContent = await this.renderNote(templateKind, noteData, createdAt);
+
+			// Create the file
+			await this.env.vault.create(finalPath, noteContent);
+			console.log('File created:', finalPath);
+		} finally {
+			this.pendingPaths.delete(finalPath);
+		}
+
+		// Attachments are saved once the note exists, so Obsidian resolves the attachment folder from it
+		const updatedContent = await this.embedClipMedia(clip, content, finalPath, quiet);
+		const archive = await this.archivePage(clip, finalPath, quiet);
+
+		if (updatedContent !== content || archive) {
+			noteData.content = markContent(updatedContent);
+			if (archive) noteData.properties = { ...noteData.properties, ...archive };
+			await this.env.vault.modify(finalPath, await this.renderNote(templateKind, noteData, createdAt));
+		}
+
+		return finalPath;
+	}
+
+	// Safe file name for a title in the folder; a number is added if the file exists
+	// (or is being written by a concurrent batch clip)
+	getAvailableNotePath(folder: string, title: string): string {
+		const safeTitle = title.replace(/[\\/:*?"<>|]/g, '-');
+		let finalPath = normalizePath(`${folder}/${safeTitle}.md`);
+		let counter = 1;
+		while (this.env.vault.exists(finalPath) || this.pendingPaths.has(finalPath)) {
+			const baseTitle = safeTitle.replace(/\.\.\.$/, '');
+			finalPath = normalizePath(`${folder}/${baseTitle}-${counter}.md`);
+			counter++;
+		}
+		return finalPath;
+	}
+
+	// Save a clip's attachments and clipboard images next to the note and download its remote
+	// images (if enabled); returns the content with the embeds
+	async embedClipMedia(clip: ProcessedClip, content: string, notePath: string, quiet = false): Promise<string> {
+		let updatedContent = content;
+		if (clip.attachments && clip.attachments.length > 0) {
+			const embeds: string[] = [];
+			for (const attachment of clip.attachments) {
+				const saved = await this.saveAttachment(attachment.data, attachment.filename, notePath);
+				embeds.push(this.embedLink(saved, notePath));
+			}
+			updatedContent = [embeds.join('\n\n'), updatedContent].filter(part => part.trim() !== '').join('\n\n');
+		}
+		if (clip.images.length > 0) {
+			const embeds = await this.saveClipboardImages(clip.images, notePath);
+			updatedContent = updatedContent.trim() !== '' ? `${updatedContent}\n\n${embeds}` : embeds;
+		}
+
+		// Download images if this was a URL or formatted clip and download images is enabled
+		if (clip.hasRemoteImages && this.settings.downloadImages) {
+			if (!quiet) this.env.notify('Downloading images...');
+			// Generate a random 3-character prefix for all images from this page
+			const imagePrefix = this.generateImagePrefix();
+			const images = await this.downloadImagesInContent(updatedContent, notePath, imagePrefix);
+			if (!quiet) this.showImageReport(images.report);
+
+			// Local image embeds, and a list of the images that failed
+			updatedContent = appendImageReport(images.content, images.report);
+		}
+
+		return updatedContent;
+	}
+
+	// Offline HTML snapshot of a clipped page, saved next to the note (if enabled); returns the
+	// frontmatter linking it, with the fetch time and a hash of the converted content
+	async archivePage(clip: ProcessedClip, notePath: string, quiet = false): Promise<Record<string, string> | undefined> {
+		if (!this.settings.archivePages || !clip.page) return undefined;
+		if (!quiet) this.env.notify('Archiving page...');
+
+		const maxBytes = this.settings.maxImageSize * 1024 * 1024;
+		const converted = clip.converted || clip.content;
+		try {
+			const html = await buildArchive(clip.page.html, clip.page.url, {
+				parseHtml: this.env.parseHtml,
+				concurrency: this.settings.imageConcurrency,
+				markdown: converted,
+				fetchAsset: async url => {
+					const response = await this.fetchURL(url);
+					if (response.arrayBuffer.byteLength > maxBytes) return undefined;
+					return { data: response.arrayBuffer, contentType: getHeader(response.headers, 'content-type') };
+				}
+			});
+			const noteName = notePath.split('/').pop()?.replace(/\.md$/, '') || 'Untitled';
+			const path = await this.saveAttachment(new TextEncoder().encode(html).buffer, `${noteName}.html`, notePath);
+			return {
+				archive: `[[${this.getLinkTarget(path)}]]`,
+				fetched: formatDate(clip.page.fetchedAt, DEFAULT_DATE_FORMAT),
+				content_hash: await hashText(converted)
+			};
+		} catch (error) {
+			console.error('Error archiving page:', error);
+			this.env.notify(`Failed to archive page: ${error.message}`);
+			return undefined;
+		}
+	}
+
+	async saveClipboardImages(images: ClipboardImage[], notePath: string): Promise<string> {
+		const prefix = this.generateImagePrefix();
+		const embeds: string[] = [];
+
+		for (let i = 0; i < images.length; i++) {
+			const image = images[i];
+			const suffix = images.length > 1 ? `-${i + 1}` : '';
+			const filename = this.imageFilename(prefix, `clipboard${suffix}`, getImageExtension(image.mimeType));
+			const path = await this.saveAttachment(image.data, filename, notePath);
+			console.log('Clipboard image saved to:', path);
+			embeds.push(this.embedLink(path, notePath));
+		}
+
+		return embeds.join('\n\n');
+	}
+
+	generateImagePrefix(): string {
+		// Generate a random 3-character alphanumeric prefix
+		const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+		let prefix = '';
+		for (let i = 0; i < 3; i++) {
+			prefix += chars.charAt(Math.floor(Math.random() * chars.length));
+		}
+		return prefix;
+	}
+
+	// Resolve the relative link and image URLs of markdown against the URL of the page or file
+	// it came from; anchors into the document itself stay as they are
+	convertRelativeUrls(markdownContent: string, baseUrl: string): string {
+		const linkRegex = /(!?)\[([^\]]*)\]\(([^)\s]+)(\s+"[^"]*")?\)/g;
+		let converted = 0;
+
+		const result = markdownContent.replace(linkRegex, (match, embed: string, text: string, url: string, title = '') => {
+			// Absolute URLs, data: and blob: URLs, mailto: and other schemes
+			if (/^[a-z][a-z\d+.-]*:/i.test(url) || url.startsWith('#')) {
+				return match;
+			}
+			const absoluteUrl = resolveUrl(url, baseUrl);
+			if (!absoluteUrl) {
+				return match;
+			}
+			converted++;
+			return `${embed}[${text}](${absoluteUrl}${title})`;
+		});
+
+		console.log(`Converted ${converted} relative URLs to absolute against ${baseUrl}`);
+		return result;
+	}
+
+	// Download every remote and inline (data:) image of the content in parallel and point the
+	// markdown at the local copies. Identical images are saved once and reuse existing vault files.
+	async downloadImagesInContent(markdownContent: string, notePath: string, prefix: string): Promise<{ content: string; report: ImageReport }> {
+		const imageRegex = /!\[([^\]]*)\]\((\S+?)(\s+"[^"]*")?\)/g;
+		const report: ImageReport = { saved: 0, reused: 0, skipped: [], failed: [] };
+
+		const sources: string[] = [];
+		let match;
+		while ((match = imageRegex.exec(markdownContent)) !== null) {
+			const source = match[2];
+			if (/^(https?|data):/i.test(source) && !sources.includes(source)) {
+				sources.push(source);
+			}
+		}
+
+		console.log(`Downloading ${sources.length} images for ${notePath} with prefix ${prefix}`);
+
+		// Local file per source; null removes the image (icons and tracking pixels)
+		const results = new Map<string, string | null>();
+		// Hashes seen in this clip, so parallel downloads of the same image are saved once
+		const saved = new Map<string, Promise<string>>();
+		const limits: ImageLimits = {
+			maxBytes: this.settings.maxImageSize * 1024 * 1024,
+			minDimension: this.settings.minImageDimension
+		};
+		let inlineCount = 0;
+
+		await runWithConcurrency(sources, this.settings.imageConcurrency, async (source) => {
+			const label = source.startsWith('data:') ? 'inline image' : source;
+			try {
+				let data: ArrayBuffer;
+				let contentType: string | undefined;
+				let name: string;
+
+				if (source.startsWith('data:')) {
+					const decoded = decodeDataUri(source);
+					if (!decoded) throw new Error('Invalid data URI');
+					({ data, contentType } = decoded);
+					name = `inline-${++inlineCount}`;
+				} else {
+					const response = await this.env.fetch({ url: source, method: 'GET', headers: {} });
+					if (response.status < 200 || response.status >= 300) {
+						throw new Error(`HTTP ${response.status}`);
+					}
+					data = response.arrayBuffer;
+					contentType = getHeader(response.headers, 'content-type');
+					let basename = new URL(source).pathname.split('/').pop() || '';
+					try {
+						basename = decodeURIComponent(basename);
+					} catch (error) {
+						// Malformed escape, keep the encoded name
+					}
+					name = basename.replace(/\.[^.]*$/, '') || 'image';
+				}
+
+				const extension = sniffImageExtension(data, contentType);
+				if (!extension) {
+					throw new Error(`Not an image (${contentType || 'unknown type'})`);
+				}
+
+				const limit = checkImageLimits(data, extension, limits);
+				if (limit) {
+					report.skipped.push({ url: label, reason: limit });
+					// Tiny images are icons or tracking pixels and are dropped; large ones keep their remote link
+					if (limit.startsWith('smaller')) results.set(source, null);
+					return;
+				}
+
+				const hash = await hashImage(data);
+				let pending = saved.get(hash);
+				if (!pending) {
+					pending = this.findImageByHash(hash, data.byteLength).then(async existing => {
+						if (existing) {
+							report.reused++;
+							return existing;
+						}
+						// Counted once the file is written; a failed save is reported as failed only
+						const path = await this.saveAttachment(data, this.imageFilename(prefix, name, extension), notePath);
+						report.saved++;
+						return path;
+					});
+					saved.set(hash, pending);
+				}
+				results.set(source, await pending);
+			} catch (error) {
+				console.error(`Failed to download image ${label}:`, error);
+				report.failed.push({ url: label, reason: error.message });
+			}
+		}, () => false);
+
+		const content = markdownContent.replace(imageRegex, (full: string, alt: string, source: string) => {
+			const path = results.get(source);
+			if (path === undefined) return full;
+			return path === null ? '' : this.embedLink(path, notePath, alt);
+		});
+
+		console.log(`Images: ${report.saved} saved, ${report.reused} reused, ${report.skipped.length} skipped, ${report.failed.length} failed`);
+		return { content, report };
+	}
+
+	// Vault image with the same content; only files of the same size are hashed
+	async findImageByHash(hash: string, size: number): Promise<string | undefined> {
+		for (const file of this.env.vault.getFiles()) {
+			if (file.size !== size || !IMAGE_FILE_EXTENSIONS.includes(file.extension.toLowerCase())) continue;
+
+			const key = `${file.path}:${file.mtime}`;
+			let fileHash = this.imageHashes.get(key);
+			if (!fileHash) {
+				fileHash = await hashImage(await this.env.vault.readBinary(file.path));
+				this.imageHashes.set(key, fileHash);
+			}
+			if (fileHash === hash) return file.path;
+		}
+		return undefined;
+	}
+
+	showImageReport(report: ImageReport) {
+		const total = report.saved + report.reused + report.skipped.length + report.failed.length;
+		if (total === 0) return;
+
+		const parts = [`${report.saved} saved`];
+		if (report.reused > 0) parts.push(`${report.reused} already in vault`);
+		if (report.skipped.length > 0) parts.push(`${report.skipped.length} skipped`);
+		if (report.failed.length > 0) parts.push(`${report.failed.length} failed`);
+		this.env.notify(`Images: ${parts.join(', ')}`);
+	}
+}
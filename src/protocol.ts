@@ -0,0 +1,64 @@
+// Capture through obsidian://clipboard-to-note?url=...&selection=...&title=...&tags=...&folder=...
+// (bookmarklets, share sheets, other apps), and the bookmarklet that opens such a link
+import { sanitizeTags } from './tags';
+
+export const PROTOCOL_ACTION = 'clipboard-to-note';
+
+export interface ProtocolClip {
+	url?: string;
+	selection?: string;
+	title?: string;
+	tags: string[];
+	folder?: string;
+}
+
+export interface BookmarkletOptions {
+	vault: string;
+	tags: string;
+	folder: string;
+}
+
+// Obsidian has already decoded the query parameters; empty ones count as missing
+export function parseProtocolParams(params: Record<string, string>): ProtocolClip {
+	const value = (name: string) => {
+		const trimmed = (params[name] || '').trim();
+		return trimmed === '' ? undefined : trimmed;
+	};
+	// Share sheets put the link into the text when they have no separate URL field
+	const text = value('text');
+	const url = value('url') || (text && /^https?:\/\/\S+$/.test(text) ? text : undefined);
+	return {
+		url,
+		selection: value('selection') || (text !== url ? text : undefined),
+		title: value('title'),
+		tags: sanitizeTags((params.tags || '').split(/[,\s]+/)),
+		folder: value('folder')
+	};
+}
+
+// The selection as a quote callout above the clipped content
+export function formatHighlight(selection: string): string {
+	const lines = selection.trim().split(/\r?\n/).map(line => line.trimEnd());
+	return ['> [!quote] Highlight', ...lines.map(line => line ? `> ${line}` : '>')].join('\n');
+}
+
+// javascript: link that sends the current page, its title and the selected text to the vault
+export function buildBookmarklet(options: BookmarkletOptions): string {
+	// Quotes are escaped too, the link sits in a single-quoted string of the script
+	const encode = (value: string) => encodeURIComponent(value).replace(/'/g, '%27');
+	const fixed: string[] = [];
+	if (options.vault) fixed.push(`vault=${encode(options.vault)}`);
+	const tags = options.tags.trim();
+	if (tags) fixed.push(`tags=${encode(tags)}`);
+	const folder = options.folder.trim();
+	if (folder) fixed.push(`folder=${encode(folder)}`);
+	const prefix = `obsidian://${PROTOCOL_ACTION}?${fixed.map(param => `${param}&`).join('')}`;
+
+	const script = [
+		'(function(){',
+		'var e=encodeURIComponent,s=String(window.getSelection()).trim();',
+		`location.href='${prefix}url='+e(location.href)+'&title='+e(document.title)+(s?'&selection='+e(s):'');`,
+		'})()'
+	].join('');
+	return `javascript:${script}`;
+}
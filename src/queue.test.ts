@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isTransientError } from './queue';
+
+test('failed requests, timeouts, rate limits and server errors are retried', () => {
+	for (const message of [
+		'Failed to fetch URL: net::ERR_INTERNET_DISCONNECTED',
+		'Failed to fetch URL: fetch failed',
+		'Failed to fetch URL: Request failed, status 0',
+		'Failed to fetch URL: connect ECONNREFUSED 127.0.0.1:443',
+		'Request timed out after 30s',
+		'Failed to fetch URL: HTTP 429: Failed to fetch URL',
+		'Failed to fetch URL: HTTP 503: Failed to fetch URL'
+	]) {
+		assert.equal(isTransientError(message), true, message);
+	}
+});
+
+test('missing pages, unsupported files and conversion errors are not retried', () => {
+	for (const message of [
+		'Failed to fetch URL: HTTP 404: Failed to fetch URL',
+		'Failed to fetch URL: Received empty response from URL',
+		'Unsupported content type: application/zip',
+		"Cannot read properties of undefined (reading 'textContent')",
+		'Invalid JSON response: <html>',
+		'Unexpected token < in JSON at position 0'
+	]) {
+		assert.equal(isTransientError(message), false, message);
+	}
+});
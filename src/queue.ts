@@ -0,0 +1,69 @@
+// Retry queue for URL clips that could not be fetched (offline, timeouts, server errors).
+// Each entry has a placeholder note with `status: pending` that is filled in once a retry succeeds.
+
+export interface PendingClip {
+	url: string;
+	// Placeholder note
+	path: string;
+	attempts: number;
+	// Timestamps in milliseconds
+	createdAt: number;
+	nextAttempt: number;
+	lastError: string;
+}
+
+// 1, 2, 4, 8, ... minutes between retries, at most six hours
+const RETRY_BASE_DELAY = 60 * 1000;
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;
+
+export function nextRetryTime(attempts: number, now: number): number {
+	const delay = Math.min(RETRY_BASE_DELAY * Math.pow(2, Math.max(0, attempts - 1)), MAX_RETRY_DELAY);
+	return now + delay;
+}
+
+// Requests that failed without a response: Electron's net errors, Node's fetch and socket errors, timeouts
+const NETWORK_ERROR = /net::ERR_|fetch failed|request failed|timed out|timeout|socket hang up|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|ETIMEDOUT/i;
+
+// Network errors, timeouts, rate limits and server errors may go away; a missing page, an
+// unsupported file or a page that cannot be converted will not
+export function isTransientError(message: string): boolean {
+	const status = message.match(/HTTP (\d{3})/)?.[1];
+	if (status) {
+		return status === '408' || status === '429' || status.startsWith('5');
+	}
+	return NETWORK_ERROR.test(message);
+}
+
+// "example.com - some-article" from the URL, as the note has no page title yet
+export function placeholderTitle(url: string): string {
+	try {
+		const parsed = new URL(url);
+		const segment = parsed.pathname.split('/').filter(part => part !== '').pop();
+		const host = parsed.hostname.replace(/^www\./, '');
+		return (segment ? `${host} - ${decodeURIComponent(segment)}` : host).substring(0, 80);
+	} catch (error) {
+		return 'Pending clip';
+	}
+}
+
+export function formatPendingCallout(entry: PendingClip): string {
+	const next = new Date(entry.nextAttempt);
+	const time = `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}-${String(next.getDate()).padStart(2, '0')} ${String(next.getHours()).padStart(2, '0')}:${String(next.getMinutes()).padStart(2, '0')}`;
+	const attempts = entry.attempts === 1 ? '1 attempt' : `${entry.attempts} attempts`;
+	return [
+		'> [!warning] Clip pending',
+		`> ${entry.url} could not be fetched: ${entry.lastError}`,
+		'>',
+		`> Retrying automatically (${attempts} so far, next around ${time}), or run "Retry pending clips". This note is filled in once the page loads.`
+	].join('\n');
+}
+
+// Left in the note when a retry fails for good (the page is gone or cannot be clipped)
+export function formatFailedCallout(entry: PendingClip): string {
+	return [
+		'> [!failure] Clip failed',
+		`> ${entry.url} could not be clipped: ${entry.lastError}`,
+		'>',
+		'> This error does not go away by retrying, so the clip was removed from the retry queue.'
+	].join('\n');
+}
@@ -0,0 +1,48 @@
+// Passages copied from web pages: the source page named in the browser's clipboard HTML,
+// quote notes with a citation, and highlights notes that collect the quotes from one page
+
+// Notes with this "kind" property cite a page without being a clip of it
+export const QUOTE_KINDS = ['quote', 'highlights'];
+
+// Chromium (and Firefox on Windows) put a CF_HTML header before the markup, e.g.
+// "Version:0.9 StartHTML:... SourceURL:https://example.com/page"
+export function extractSourceUrl(html: string): string | undefined {
+	const markup = html.search(/</);
+	const header = markup === -1 ? html : html.substring(0, markup);
+	const match = header.match(/^SourceURL:\s*(https?:\/\/\S+)/im);
+	return match ? match[1] : undefined;
+}
+
+// The passage as a blockquote; blank lines between paragraphs stay inside the quote
+export function formatQuote(quote: string): string {
+	return quote.trim().split(/\r?\n/).map(line => line.trimEnd() ? `> ${line.trimEnd()}` : '>').join('\n');
+}
+
+export function formatCitation(title: string, url: string): string {
+	return `— [${escapeLinkText(title)}](${escapeLinkUrl(url)})`;
+}
+
+export function formatQuoteNote(quote: string, title: string, url: string): string {
+	return `${formatQuote(quote)}\n\n${formatCitation(title, url)}`;
+}
+
+// Start of a highlights note; the quotes follow as entries
+export function formatHighlightsNote(title: string, url: string, entry: string): string {
+	return `Highlights from [${escapeLinkText(title)}](${escapeLinkUrl(url)})\n\n${entry}`;
+}
+
+export function formatHighlightEntry(quote: string, date: string): string {
+	return `${formatQuote(quote)}\n\n*${date}*`;
+}
+
+export function appendHighlight(note: string, entry: string): string {
+	return `${note.replace(/\s+$/, '')}\n\n${entry}\n`;
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([[\]])/g, '\\$1');
+}
+
+function escapeLinkUrl(url: string): string {
+	return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
@@ -0,0 +1,298 @@
+// Readability-style main content extraction.
+// Scores block elements by their text content, keeps the best candidate (plus
+// related siblings) and strips boilerplate such as navigation, cookie banners,
+// sidebars, footers and "related articles" lists.
+
+export interface ExtractionResult {
+	element: HTMLElement;
+	// Which strategy produced the element: scored candidate, semantic fallback or the cleaned body
+	method: 'scored' | 'semantic' | 'body';
+}
+
+// Elements that never contain article content
+const REMOVE_TAGS = 'script, style, noscript, template, iframe:not([src*="youtube"]):not([src*="vimeo"]), form, button, input, select, textarea, nav, footer, aside, dialog';
+
+// Class/id patterns that indicate boilerplate, and patterns that protect content
+const UNLIKELY_CANDIDATES = /-ad-|ad-break|adbox|advert|agegate|banner|breadcrumb|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|navbar|newsletter|outbrain|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental|taboola|toolbar|tweet|twitter|widget/i;
+const MAYBE_CANDIDATES = /and|article|body|column|content|main|shadow|post|entry|story|text/i;
+const POSITIVE_PATTERN = /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i;
+const NEGATIVE_PATTERN = /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+const UNLIKELY_ROLES = ['menu', 'menubar', 'complementary', 'navigation', 'alert', 'alertdialog', 'dialog', 'banner', 'contentinfo', 'search'];
+
+// Image sources that are tracking pixels, spacers or site chrome rather than content
+const BOILERPLATE_IMAGE = /pixel|tracking|beacon|spacer|blank\.gif|analytics|doubleclick|facebook\.com\/tr|\/logo[^/]*\.|[-_]logo[-_.]|avatar|gravatar|badge|icon/i;
+
+const SCORABLE_TAGS = ['P', 'PRE', 'TD', 'BLOCKQUOTE', 'LI', 'SECTION', 'H2', 'H3'];
+const MIN_PARAGRAPH_LENGTH = 25;
+const MIN_CONTENT_LENGTH = 250;
+const CANDIDATE_COUNT = 5;
+
+export function extractMainContent(doc: Document): ExtractionResult {
+	const body = doc.body;
+
+	// Strip elements that can never be content before scoring
+	removeAll(body, REMOVE_TAGS);
+	removeUnlikelyCandidates(body);
+
+	const scored = findTopCandidate(doc);
+	if (scored && textLength(scored) >= MIN_CONTENT_LENGTH) {
+		cleanContent(scored);
+		return { element: scored, method: 'scored' };
+	}
+
+	// Scoring failed (very short pages, unusual markup): try semantic containers
+	const semantic = body.querySelector<HTMLElement>('article, main, [role="main"], [itemprop="articleBody"]');
+	if (semantic && textLength(semantic) >= MIN_CONTENT_LENGTH) {
+		cleanContent(semantic);
+		return { element: semantic, method: 'semantic' };
+	}
+
+	// Last resort: the whole body with boilerplate removed
+	cleanContent(body);
+	return { element: body, method: 'body' };
+}
+
+function removeAll(root: Element, selector: string) {
+	const elements = Array.from(root.querySelectorAll(selector));
+	for (const el of elements) {
+		el.remove();
+	}
+}
+
+function removeUnlikelyCandidates(root: HTMLElement) {
+	const elements = Array.from(root.querySelectorAll<HTMLElement>('*'));
+	for (const el of elements) {
+		if (!el.isConnected || el.tagName === 'BODY' || el.tagName === 'A') continue;
+
+		const role = el.getAttribute('role');
+		if (role && UNLIKELY_ROLES.includes(role)) {
+			el.remove();
+			continue;
+		}
+
+		if (el.getAttribute('aria-hidden') === 'true' || el.hidden || /display:\s*none/i.test(el.getAttribute('style') || '')) {
+			el.remove();
+			continue;
+		}
+
+		const matchString = `${el.className} ${el.id}`;
+		if (UNLIKELY_CANDIDATES.test(matchString) &&
+			!MAYBE_CANDIDATES.test(matchString) &&
+			!el.closest('table') &&
+			!el.closest('code, pre') &&
+			el.tagName !== 'ARTICLE' && el.tagName !== 'MAIN') {
+			el.remove();
+		}
+	}
+}
+
+function findTopCandidate(doc: Document): HTMLElement | null {
+	const scores = new Map<HTMLElement, number>();
+
+	const initialize = (el: HTMLElement) => {
+		if (scores.has(el)) return;
+		scores.set(el, tagScore(el) + classWeight(el));
+	};
+
+	const paragraphs = Array.from(doc.body.querySelectorAll<HTMLElement>(SCORABLE_TAGS.join(',')));
+	for (const paragraph of paragraphs) {
+		const text = innerText(paragraph);
+		if (text.length < MIN_PARAGRAPH_LENGTH) continue;
+
+		const parent = paragraph.parentElement;
+		if (!parent) continue;
+
+		// One point for the paragraph, one per comma, one per 100 characters (max 3)
+		let contentScore = 1;
+		contentScore += text.split(/[,，、]/).length - 1;
+		contentScore += Math.min(Math.floor(text.length / 100), 3);
+
+		// Propagate the score to ancestors with a decaying weight
+		let ancestor: HTMLElement | null = parent;
+		let level = 0;
+		while (ancestor && level < 3) {
+			initialize(ancestor);
+			const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+			scores.set(ancestor, (scores.get(ancestor) || 0) + contentScore / divider);
+			ancestor = ancestor.parentElement;
+			level++;
+		}
+	}
+
+	// Scale by link density: navigation-heavy blocks score low
+	const candidates: { el: HTMLElement; score: number }[] = [];
+	scores.forEach((score, el) => {
+		candidates.push({ el, score: score * (1 - linkDensity(el)) });
+	});
+	candidates.sort((a, b) => b.score - a.score);
+
+	if (candidates.length === 0 || candidates[0].score <= 0) {
+		return null;
+	}
+
+	let top = candidates[0].el;
+	const topScore = candidates[0].score;
+
+	// If several strong candidates share an ancestor, that ancestor holds the article
+	const alternatives = candidates.slice(1, CANDIDATE_COUNT).filter(c => c.score >= topScore * 0.75).map(c => c.el);
+	if (alternatives.length >= 2) {
+		let parent = top.parentElement;
+		while (parent && parent.tagName !== 'BODY') {
+			const containing = alternatives.filter(a => parent!.contains(a)).length;
+			if (containing >= 2) {
+				top = parent;
+				break;
+			}
+			parent = parent.parentElement;
+		}
+	}
+
+	// Include siblings that look like a continuation of the article
+	const parent = top.parentElement;
+	if (!parent) {
+		return top;
+	}
+
+	const threshold = Math.max(10, topScore * 0.2);
+	const siblings = Array.from(parent.children) as HTMLElement[];
+	const related = siblings.filter(sibling => {
+		if (sibling === top) return true;
+		const siblingScore = scores.get(sibling);
+		if (siblingScore !== undefined && siblingScore * (1 - linkDensity(sibling)) >= threshold) {
+			return true;
+		}
+		if (sibling.tagName === 'P') {
+			const text = innerText(sibling);
+			const density = linkDensity(sibling);
+			return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+		}
+		return false;
+	});
+
+	if (related.length <= 1) {
+		return top;
+	}
+
+	const wrapper = doc.createElement('div');
+	for (const sibling of related) {
+		wrapper.appendChild(sibling.cloneNode(true));
+	}
+	return wrapper;
+}
+
+// Remove leftover clutter inside the chosen content element
+function cleanContent(root: HTMLElement) {
+	removeAll(root, REMOVE_TAGS);
+
+	// Drop tracking pixels, logos and icons so they are neither converted nor downloaded
+	const images = Array.from(root.querySelectorAll<HTMLImageElement>('img'));
+	for (const img of images) {
+		const src = img.getAttribute('src') || img.getAttribute('data-src') || '';
+		const width = parseInt(img.getAttribute('width') || '', 10);
+		const height = parseInt(img.getAttribute('height') || '', 10);
+		const tiny = (!isNaN(width) && width <= 2) || (!isNaN(height) && height <= 2);
+		if (tiny || BOILERPLATE_IMAGE.test(`${src} ${img.className} ${img.id}`)) {
+			img.remove();
+		}
+	}
+
+	// Remove link lists and blocks that are mostly links ("related articles", tag clouds, share bars)
+	const blocks = Array.from(root.querySelectorAll<HTMLElement>('ul, ol, div, section, table, p'));
+	for (const block of blocks) {
+		if (!block.isConnected || block === root) continue;
+
+		const weight = classWeight(block);
+		const text = innerText(block);
+		const density = linkDensity(block);
+		const images = block.querySelectorAll('img').length;
+		const isList = block.tagName === 'UL' || block.tagName === 'OL';
+
+		if (weight < 0 && density > 0.2) {
+			block.remove();
+		} else if (isList && density > 0.8 && text.length < 500 && images === 0) {
+			block.remove();
+		} else if (!isList && block.tagName !== 'P' && density > 0.5 && images === 0 && text.length < 1000) {
+			block.remove();
+		} else if (text.length === 0 && images === 0 && !block.querySelector('video, audio, iframe, math, pre, code, table')) {
+			block.remove();
+		}
+	}
+
+	// Headings of removed sections ("Related articles", "Share this") that are now empty
+	const headings = Array.from(root.querySelectorAll<HTMLElement>('h2, h3, h4'));
+	for (const heading of headings) {
+		if (classWeight(heading) < 0 || /^(related|share|more from|recommended|you (may|might) also like|read more|comments?)\b/i.test(innerText(heading))) {
+			if (!heading.nextElementSibling || /^H[1-6]$/.test(heading.nextElementSibling.tagName)) {
+				heading.remove();
+			}
+		}
+	}
+}
+
+function tagScore(el: HTMLElement): number {
+	switch (el.tagName) {
+		case 'ARTICLE':
+		case 'MAIN':
+			return 10;
+		case 'DIV':
+		case 'SECTION':
+			return 5;
+		case 'PRE':
+		case 'TD':
+		case 'BLOCKQUOTE':
+			return 3;
+		case 'ADDRESS':
+		case 'OL':
+		case 'UL':
+		case 'DL':
+		case 'DD':
+		case 'DT':
+		case 'LI':
+		case 'FORM':
+			return -3;
+		case 'H1':
+		case 'H2':
+		case 'H3':
+		case 'H4':
+		case 'H5':
+		case 'H6':
+		case 'TH':
+			return -5;
+		default:
+			return 0;
+	}
+}
+
+function classWeight(el: HTMLElement): number {
+	let weight = 0;
+	const className = typeof el.className === 'string' ? el.className : '';
+	for (const value of [className, el.id]) {
+		if (!value) continue;
+		if (NEGATIVE_PATTERN.test(value)) weight -= 25;
+		if (POSITIVE_PATTERN.test(value)) weight += 25;
+	}
+	return weight;
+}
+
+function innerText(el: Element): string {
+	return (el.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function textLength(el: Element): number {
+	return innerText(el).length;
+}
+
+function linkDensity(el: Element): number {
+	const length = textLength(el);
+	if (length === 0) return 0;
+
+	let linkLength = 0;
+	const links = Array.from(el.querySelectorAll('a'));
+	for (const link of links) {
+		// In-page anchors (footnotes, tables of contents) count less than outbound links
+		const href = link.getAttribute('href') || '';
+		const coefficient = href.startsWith('#') ? 0.3 : 1;
+		linkLength += textLength(link) * coefficient;
+	}
+	return linkLength / length;
+}
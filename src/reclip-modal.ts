@@ -0,0 +1,62 @@
+// Modal showing how a page changed since it was clipped, before the note is updated
+import { App, Modal, Setting } from 'obsidian';
+import { DiffLine, countChanges, groupHunks } from './diff';
+
+export function confirmReclip(app: App, noteName: string, lines: DiffLine[]): Promise<boolean> {
+	return new Promise(resolve => {
+		new ReclipModal(app, noteName, lines, resolve).open();
+	});
+}
+
+class ReclipModal extends Modal {
+	noteName: string;
+	lines: DiffLine[];
+	onResolve: (accepted: boolean) => void;
+	accepted = false;
+
+	constructor(app: App, noteName: string, lines: DiffLine[], onResolve: (accepted: boolean) => void) {
+		super(app);
+		this.noteName = noteName;
+		this.lines = lines;
+		this.onResolve = onResolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.modalEl.addClass('clipboard-to-note-review');
+		this.setTitle(`Changes to "${this.noteName}"`);
+
+		const { added, removed } = countChanges(this.lines);
+		const count = (n: number) => n === 1 ? '1 line' : `${n} lines`;
+		contentEl.createEl('p', {
+			text: `The page has ${count(added)} added and ${count(removed)} removed since it was clipped. ` +
+				'Accepting replaces the content below the clip marker; your edits above it are kept.'
+		});
+
+		const diffEl = contentEl.createDiv({ cls: 'clipboard-to-note-diff' });
+		for (const hunk of groupHunks(this.lines)) {
+			diffEl.createDiv({ cls: 'clipboard-to-note-diff-hunk', text: `@@ -${hunk.oldStart} +${hunk.newStart} @@` });
+			for (const line of hunk.lines) {
+				const prefix = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+				diffEl.createDiv({ cls: `clipboard-to-note-diff-line clipboard-to-note-diff-${line.type}`, text: `${prefix} ${line.text}` });
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Accept update')
+				.setCta()
+				.onClick(() => {
+					this.accepted = true;
+					this.close();
+				}));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onResolve(this.accepted);
+	}
+}
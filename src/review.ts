@@ -0,0 +1,229 @@
+// Review modal shown before a note is written: title, tags, destination folder and content
+import { AbstractInputSuggest, App, Component, MarkdownRenderer, Modal, Setting, TextAreaComponent } from 'obsidian';
+
+export interface ReviewResult {
+	title: string;
+	tags: string[];
+	folder: string;
+	content: string;
+}
+
+export function openReviewModal(app: App, proposal: ReviewResult, vaultTags: string[]): Promise<ReviewResult | null> {
+	return new Promise(resolve => {
+		new ReviewModal(app, proposal, vaultTags, resolve).open();
+	});
+}
+
+class ReviewModal extends Modal {
+	result: ReviewResult;
+	vaultTags: string[];
+	onResolve: (result: ReviewResult | null) => void;
+	submitted = false;
+	renderComponent = new Component();
+	chipsEl: HTMLElement;
+	previewEl: HTMLElement;
+	editor: TextAreaComponent;
+	editing = false;
+
+	constructor(app: App, proposal: ReviewResult, vaultTags: string[], onResolve: (result: ReviewResult | null) => void) {
+		super(app);
+		this.result = { ...proposal, tags: [...proposal.tags] };
+		this.vaultTags = vaultTags;
+		this.onResolve = onResolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.renderComponent.load();
+		this.modalEl.addClass('clipboard-to-note-review');
+		this.setTitle('Review new note');
+
+		new Setting(contentEl)
+			.setName('Title')
+			.addText(text => {
+				text.setValue(this.result.title)
+					.onChange(value => {
+						this.result.title = value;
+					});
+				text.inputEl.addClass('clipboard-to-note-review-title');
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		// Tags as removable chips with autocomplete from the vault's tags
+		const tagSetting = new Setting(contentEl).setName('Tags');
+		const tagsEl = tagSetting.controlEl.createDiv({ cls: 'clipboard-to-note-chips' });
+		this.chipsEl = tagsEl.createDiv({ cls: 'clipboard-to-note-chip-list' });
+		const tagInput = tagsEl.createEl('input', {
+			type: 'text',
+			cls: 'clipboard-to-note-chip-input',
+			attr: { placeholder: 'Add tag...' }
+		});
+		new TagSuggest(this.app, tagInput, () => this.vaultTags.filter(t => !this.result.tags.includes(t)), tag => {
+			this.addTag(tag);
+			tagInput.value = '';
+		});
+		tagInput.addEventListener('keydown', (evt: KeyboardEvent) => {
+			if ((evt.key === 'Enter' || evt.key === ',') && tagInput.value.trim() !== '') {
+				evt.preventDefault();
+				this.addTag(tagInput.value);
+				tagInput.value = '';
+			} else if (evt.key === 'Backspace' && tagInput.value === '' && this.result.tags.length > 0) {
+				this.result.tags.pop();
+				this.renderChips();
+			}
+		});
+		this.renderChips();
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Destination folder, created if it does not exist')
+			.addText(text => {
+				text.setValue(this.result.folder)
+					.onChange(value => {
+						this.result.folder = value;
+					});
+				new FolderSuggest(this.app, text.inputEl, value => {
+					this.result.folder = value;
+				});
+			});
+
+		// Markdown preview, switchable to an editor
+		new Setting(contentEl)
+			.setName('Content')
+			.addButton(button => button
+				.setButtonText('Edit')
+				.onClick(async () => {
+					this.editing = !this.editing;
+					button.setButtonText(this.editing ? 'Preview' : 'Edit');
+					await this.renderContent();
+				}));
+		this.previewEl = contentEl.createDiv({ cls: 'clipboard-to-note-review-preview markdown-rendered' });
+		const editorEl = contentEl.createDiv({ cls: 'clipboard-to-note-review-editor' });
+		this.editor = new TextAreaComponent(editorEl)
+			.setValue(this.result.content)
+			.onChange(value => {
+				this.result.content = value;
+			});
+		this.editor.inputEl.rows = 16;
+		void this.renderContent();
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()))
+			.addButton(button => button
+				.setButtonText('Create note')
+				.setCta()
+				.onClick(() => this.submit()));
+
+		this.scope.register(['Mod'], 'Enter', () => {
+			this.submit();
+			return false;
+		});
+	}
+
+	onClose() {
+		this.renderComponent.unload();
+		this.contentEl.empty();
+		this.onResolve(this.submitted ? this.result : null);
+	}
+
+	submit() {
+		this.result.title = this.result.title.trim();
+		this.result.folder = this.result.folder.trim();
+		this.submitted = true;
+		this.close();
+	}
+
+	addTag(value: string) {
+		const tag = value.trim().replace(/^#/, '').replace(/,$/, '');
+		if (tag && !this.result.tags.includes(tag)) {
+			this.result.tags.push(tag);
+			this.renderChips();
+		}
+	}
+
+	renderChips() {
+		this.chipsEl.empty();
+		for (const tag of this.result.tags) {
+			const chip = this.chipsEl.createSpan({ cls: 'clipboard-to-note-chip', text: tag });
+			const remove = chip.createSpan({ cls: 'clipboard-to-note-chip-remove', text: '×', attr: { 'aria-label': `Remove ${tag}` } });
+			remove.addEventListener('click', () => {
+				this.result.tags = this.result.tags.filter(t => t !== tag);
+				this.renderChips();
+			});
+		}
+	}
+
+	async renderContent() {
+		this.editor.inputEl.parentElement?.toggle(this.editing);
+		this.previewEl.toggle(!this.editing);
+		if (this.editing) return;
+
+		this.previewEl.empty();
+		if (this.result.content.trim() === '') {
+			this.previewEl.createEl('p', { text: 'No text content', cls: 'setting-item-description' });
+			return;
+		}
+		await MarkdownRenderer.render(this.app, this.result.content, this.previewEl, '', this.renderComponent);
+	}
+}
+
+class TagSuggest extends AbstractInputSuggest<string> {
+	getTags: () => string[];
+	onChoose: (tag: string) => void;
+
+	constructor(app: App, inputEl: HTMLInputElement, getTags: () => string[], onChoose: (tag: string) => void) {
+		super(app, inputEl);
+		this.getTags = getTags;
+		this.onChoose = onChoose;
+	}
+
+	getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase().replace(/^#/, '');
+		if (lowerQuery === '') return [];
+		return this.getTags()
+			.filter(tag => tag.toLowerCase().includes(lowerQuery))
+			.slice(0, 20);
+	}
+
+	renderSuggestion(tag: string, el: HTMLElement): void {
+		el.setText(tag);
+	}
+
+	selectSuggestion(tag: string): void {
+		this.onChoose(tag);
+		this.close();
+	}
+}
+
+class FolderSuggest extends AbstractInputSuggest<string> {
+	inputEl: HTMLInputElement;
+	onChoose: (folder: string) => void;
+
+	constructor(app: App, inputEl: HTMLInputElement, onChoose: (folder: string) => void) {
+		super(app, inputEl);
+		this.inputEl = inputEl;
+		this.onChoose = onChoose;
+	}
+
+	getSuggestions(query: string): string[] {
+		const lowerQuery = query.toLowerCase();
+		return this.app.vault.getAllFolders()
+			.map(folder => folder.path)
+			.filter(path => path.toLowerCase().includes(lowerQuery))
+			.sort()
+			.slice(0, 50);
+	}
+
+	renderSuggestion(folder: string, el: HTMLElement): void {
+		el.setText(folder);
+	}
+
+	selectSuggestion(folder: string): void {
+		this.setValue(folder);
+		this.inputEl.dispatchEvent(new Event('input'));
+		this.onChoose(folder);
+		this.close();
+	}
+}
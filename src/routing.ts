@@ -0,0 +1,107 @@
+// Rule-based routing of new notes to folders.
+// Rules are checked in order; the first enabled rule that matches picks the folder
+// and adds its tags. Without a match the note goes to the inbox folder.
+
+export type ClipType = 'text' | 'url' | 'image' | 'quote';
+
+export type RoutingMatchType = 'domain' | 'url' | 'tag' | 'keyword' | 'type';
+
+export interface RoutingRule {
+	name: string;
+	enabled: boolean;
+	matchType: RoutingMatchType;
+	pattern: string;
+	folder: string;
+	tags: string[];
+}
+
+export interface RoutingInput {
+	type: ClipType;
+	url?: string;
+	tags: string[];
+	text: string;
+}
+
+export const MATCH_TYPE_LABELS: Record<RoutingMatchType, string> = {
+	domain: 'Source domain',
+	url: 'URL regex',
+	tag: 'Suggested tag',
+	keyword: 'Content keyword',
+	type: 'Clipboard type'
+};
+
+export function createRoutingRule(): RoutingRule {
+	return {
+		name: '',
+		enabled: true,
+		matchType: 'domain',
+		pattern: '',
+		folder: '',
+		tags: []
+	};
+}
+
+export function findMatchingRule(rules: RoutingRule[], input: RoutingInput): RoutingRule | undefined {
+	return rules.find(rule => rule.enabled && ruleMatches(rule, input));
+}
+
+export function ruleMatches(rule: RoutingRule, input: RoutingInput): boolean {
+	const pattern = rule.pattern.trim();
+	if (pattern === '') return false;
+
+	// All match types except the regex accept a comma-separated list of alternatives
+	const values = pattern.split(',').map(v => v.trim().toLowerCase()).filter(v => v.length > 0);
+
+	switch (rule.matchType) {
+		case 'domain':
+			return matchesDomain(input.url, values);
+		case 'url': {
+			if (!input.url) return false;
+			try {
+				return new RegExp(pattern, 'i').test(input.url);
+			} catch (error) {
+				console.warn(`Invalid URL regex in routing rule "${rule.name}":`, error);
+				return false;
+			}
+		}
+		case 'tag': {
+			// Parent tags match their nested tags: "research" matches "research/ml"
+			const tags = input.tags.map(t => t.toLowerCase().replace(/^#/, ''));
+			return values.some(value => {
+				const wanted = value.replace(/^#/, '');
+				return tags.some(tag => tag === wanted || tag.startsWith(`${wanted}/`));
+			});
+		}
+		case 'keyword': {
+			const text = input.text.toLowerCase();
+			return values.some(keyword => text.includes(keyword));
+		}
+		case 'type':
+			return values.includes(input.type);
+		default:
+			return false;
+	}
+}
+
+export function describeRule(rule: RoutingRule, index: number): string {
+	return rule.name.trim() || `Rule ${index + 1} (${MATCH_TYPE_LABELS[rule.matchType]}: ${rule.pattern})`;
+}
+
+// "example.com" and "*.example.com" both match the domain and its subdomains
+export function matchesDomain(url: string | undefined, domains: string[]): boolean {
+	const hostname = getHostname(url);
+	if (!hostname) return false;
+	return domains.some(domain => {
+		const bare = domain.trim().toLowerCase().replace(/^\*?\./, '');
+		return bare !== '' && (hostname === bare || hostname.endsWith(`.${bare}`));
+	});
+}
+
+function getHostname(url?: string): string | undefined {
+	if (!url) return undefined;
+	try {
+		return new URL(url).hostname.toLowerCase();
+	} catch (error) {
+		return undefined;
+	}
+}
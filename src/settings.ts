@@ -0,0 +1,118 @@
+// Plugin settings with their defaults, shared by the plugin and the command line tool
+// (which reads the same data.json from the vault's plugin folder)
+import { DEFAULT_LLM_SETTINGS, LLMSettings } from './llm';
+import { PendingClip } from './queue';
+import { RoutingRule, createRoutingRule } from './routing';
+import { DEFAULT_TEXT_TEMPLATE, DEFAULT_URL_TEMPLATE } from './template';
+
+export interface ClipboardToNoteSettings {
+	inboxFolder: string;
+	useLLM: boolean;
+	llm: LLMSettings;
+	includeFolderTags: boolean;
+	maxTags: number;
+	minTagScore: number;
+	llmTitles: boolean;
+	llmSummary: boolean;
+	llmKeyPoints: boolean;
+	batchConcurrency: number;
+	downloadImages: boolean;
+	imageSubfolder: boolean;
+	imageConcurrency: number;
+	// Megabytes
+	maxImageSize: number;
+	// Pixels
+	minImageDimension: number;
+	// Self-contained HTML snapshot of each clipped page, saved as an attachment
+	archivePages: boolean;
+	extractMainContent: boolean;
+	useSiteExtractors: boolean;
+	useRichClipboard: boolean;
+	textTemplate: string;
+	urlTemplate: string;
+	textTemplateFile: string;
+	urlTemplateFile: string;
+	reviewBeforeSaving: boolean;
+	dailyNoteHeading: string;
+	// Passages copied from web pages become quote notes, optionally collected per page
+	quoteNotes: boolean;
+	collectHighlights: boolean;
+	watchCaptureUrls: boolean;
+	watchCaptureText: boolean;
+	watchMinLength: number;
+	watchAllowedDomains: string;
+	watchBlockedDomains: string;
+	// Seconds between clipboard checks
+	watchInterval: number;
+	// Tags and folder the bookmarklet in the settings passes along
+	bookmarkletTags: string;
+	bookmarkletFolder: string;
+	routingRules: RoutingRule[];
+	// URL clips waiting for a retry, not shown in the settings
+	pendingClips: PendingClip[];
+}
+
+export const DEFAULT_SETTINGS: ClipboardToNoteSettings = {
+	inboxFolder: 'Inbox',
+	useLLM: false,
+	llm: DEFAULT_LLM_SETTINGS,
+	includeFolderTags: true,
+	maxTags: 3,
+	minTagScore: 1,
+	llmTitles: false,
+	llmSummary: false,
+	llmKeyPoints: false,
+	batchConcurrency: 3,
+	downloadImages: false,
+	imageSubfolder: false,
+	imageConcurrency: 4,
+	maxImageSize: 10,
+	minImageDimension: 32,
+	archivePages: false,
+	extractMainContent: true,
+	useSiteExtractors: true,
+	useRichClipboard: true,
+	textTemplate: DEFAULT_TEXT_TEMPLATE,
+	urlTemplate: DEFAULT_URL_TEMPLATE,
+	textTemplateFile: '',
+	urlTemplateFile: '',
+	reviewBeforeSaving: true,
+	dailyNoteHeading: '## Clippings',
+	quoteNotes: true,
+	collectHighlights: false,
+	watchCaptureUrls: true,
+	watchCaptureText: false,
+	watchMinLength: 200,
+	watchAllowedDomains: '',
+	watchBlockedDomains: '',
+	watchInterval: 2,
+	bookmarkletTags: '',
+	bookmarkletFolder: '',
+	routingRules: [],
+	pendingClips: []
+}
+
+// Settings of earlier versions that are migrated on load
+interface LegacySettings {
+	useOpenAI?: boolean;
+	openAIApiKey?: string;
+}
+
+// Saved data merged over the defaults, with the OpenAI-only settings of earlier versions migrated
+export function parseSettings(data: Partial<ClipboardToNoteSettings> & LegacySettings): ClipboardToNoteSettings {
+	const settings: ClipboardToNoteSettings & LegacySettings = Object.assign({}, DEFAULT_SETTINGS, data);
+	settings.llm = Object.assign({}, DEFAULT_LLM_SETTINGS, data.llm);
+
+	if (data.useOpenAI !== undefined && data.useLLM === undefined) {
+		settings.useLLM = data.useOpenAI;
+	}
+	if (data.openAIApiKey && !settings.llm.apiKey) {
+		settings.llm.apiKey = data.openAIApiKey;
+	}
+	delete settings.useOpenAI;
+	delete settings.openAIApiKey;
+	// Copy nested values so edits never touch the defaults
+	settings.routingRules = (settings.routingRules || []).map(rule => Object.assign(createRoutingRule(), rule));
+	settings.pendingClips = (settings.pendingClips || []).map(entry => Object.assign({}, entry));
+	return settings;
+}
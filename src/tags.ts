@@ -0,0 +1,117 @@
+// Tag vocabulary from the vault's real tags (with usage counts) and folder paths,
+// and keyword scoring of note content against it. Nested tags keep their full path.
+
+export interface TagCandidate {
+	// Full tag path without "#", e.g. "research/ml"
+	tag: string;
+	// Number of notes using the tag (0 for tags only derived from folders)
+	count: number;
+	fromFolder: boolean;
+}
+
+export interface TagScoringOptions {
+	maxTags: number;
+	minScore: number;
+}
+
+// Obsidian tags allow letters, digits, "_", "-" and "/" (for nesting), and cannot be all digits
+export function sanitizeTag(tag: string): string {
+	const cleaned = tag
+		.trim()
+		.replace(/^#+/, '')
+		.replace(/\s+/g, '-')
+		.replace(/[^\p{L}\p{N}_\-/]/gu, '')
+		.replace(/\/{2,}/g, '/')
+		.replace(/-{2,}/g, '-')
+		.replace(/^[/-]+|[/-]+$/g, '');
+
+	if (cleaned === '' || /^\d+$/.test(cleaned)) {
+		return '';
+	}
+	return cleaned;
+}
+
+export function sanitizeTags(tags: string[]): string[] {
+	const seen = new Set<string>();
+	const result: string[] = [];
+	for (const tag of tags) {
+		const sanitized = sanitizeTag(tag);
+		if (sanitized && !seen.has(sanitized.toLowerCase())) {
+			seen.add(sanitized.toLowerCase());
+			result.push(sanitized);
+		}
+	}
+	return result;
+}
+
+// Merge tag usage counts and (optionally) folder paths into one vocabulary, most used first
+export function buildTagVocabulary(tagCounts: Map<string, number>, folderPaths: string[], includeFolders: boolean): TagCandidate[] {
+	const byKey = new Map<string, TagCandidate>();
+
+	tagCounts.forEach((count, rawTag) => {
+		const tag = sanitizeTag(rawTag);
+		if (!tag) return;
+		const existing = byKey.get(tag.toLowerCase());
+		if (existing) {
+			existing.count += count;
+		} else {
+			byKey.set(tag.toLowerCase(), { tag, count, fromFolder: false });
+		}
+	});
+
+	if (includeFolders) {
+		for (const path of folderPaths) {
+			const tag = sanitizeTag(path);
+			if (!tag || byKey.has(tag.toLowerCase())) continue;
+			byKey.set(tag.toLowerCase(), { tag, count: 0, fromFolder: true });
+		}
+	}
+
+	return Array.from(byKey.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+// Keyword matching: the last segment of a nested tag counts most, parent segments add context
+export function scoreTags(text: string, vocabulary: TagCandidate[], options: TagScoringOptions): string[] {
+	const lowerText = text.toLowerCase();
+	const scored: { tag: string; score: number }[] = [];
+
+	for (const candidate of vocabulary) {
+		const segments = candidate.tag.toLowerCase().split('/');
+		const name = segments[segments.length - 1];
+		const phrase = name.replace(/[-_]+/g, ' ');
+
+		let score = 0;
+
+		// Exact name match
+		if (lowerText.includes(name) || (phrase !== name && lowerText.includes(phrase))) {
+			score += 10;
+		}
+
+		// Word-by-word matching
+		for (const word of name.split(/[\s\-_]+/)) {
+			if (word.length > 2 && lowerText.includes(word)) {
+				score += 3;
+			}
+		}
+
+		if (score === 0) continue;
+
+		// Parent segments disambiguate "projects/ai" from "research/ai"
+		for (const parent of segments.slice(0, -1)) {
+			if (parent.length > 2 && lowerText.includes(parent.replace(/[-_]+/g, ' '))) {
+				score += 2;
+			}
+		}
+
+		// Tags that are actually in use win ties over folder-only tags
+		score += Math.min(Math.log(candidate.count + 1), 3);
+
+		scored.push({ tag: candidate.tag, score });
+	}
+
+	scored.sort((a, b) => b.score - a.score);
+	return scored
+		.filter(t => t.score >= options.minScore)
+		.slice(0, options.maxTags)
+		.map(t => t.tag);
+}
@@ -0,0 +1,306 @@
+// Note templates with {{variable}} placeholders.
+// Placeholders in the frontmatter are escaped for the YAML context they appear in
+// (plain value, double/single-quoted string or flow list). Frontmatter lines whose
+// whole value is a placeholder without a value are dropped.
+import { PageMetadata } from './metadata';
+import { sanitizeTags } from './tags';
+import { escapeDoubleQuoted, escapeSingleQuoted, yamlList, yamlScalar } from './yaml';
+
+export type TemplateValue = string | string[] | undefined;
+
+// Source types that can each use their own template
+export type TemplateKind = 'text' | 'url';
+
+export interface NoteData {
+	title: string;
+	content: string;
+	tags: string[];
+	url?: string;
+	selection?: string;
+	summary?: string;
+	metadata?: PageMetadata;
+	// Extra frontmatter from site extractors, e.g. the arXiv id or a YouTube channel
+	properties?: Record<string, TemplateValue>;
+}
+
+export interface TemplateContext {
+	variables: Record<string, TemplateValue>;
+	date: Date;
+	// Added to the frontmatter unless the template already has the key
+	properties?: Record<string, TemplateValue>;
+}
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+export const TEMPLATE_VARIABLES = ['title', 'content', 'tags', 'url', 'selection', 'domain', 'summary', 'date', 'date:FORMAT', 'author', 'published', 'site', 'description', 'canonical', 'cover'];
+
+export const DEFAULT_TEXT_TEMPLATE = `---
+modified: {{date:YYYY-MM-DD HH:mm}}
+created: {{date:YYYY-MM-DD HH:mm}}
+tags: {{tags}}
+summary: {{summary}}
+---
+
+{{content}}`;
+
+export const DEFAULT_URL_TEMPLATE = `---
+modified: {{date:YYYY-MM-DD HH:mm}}
+created: {{date:YYYY-MM-DD HH:mm}}
+tags: {{tags}}
+sources: "[Website]({{url}})"
+summary: {{summary}}
+author: {{author}}
+published: {{published}}
+site: {{site}}
+description: {{description}}
+canonical: {{canonical}}
+cover: {{cover}}
+---
+
+{{content}}`;
+
+const DATE_TOKENS = /\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DDDD|DD|Do|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|A|a|ZZ|Z|X|x/g;
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)(?::([^}]*))?\s*\}\}/g;
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(\r?\n|$)/;
+const KEY_VALUE = /^(\s*[^\s:#][^:]*:\s+)(.*)$/;
+
+export function buildTemplateVariables(data: NoteData): Record<string, TemplateValue> {
+	let domain: string | undefined;
+	if (data.url) {
+		try {
+			domain = new URL(data.url).hostname.replace(/^www\./, '');
+		} catch (error) {
+			domain = undefined;
+		}
+	}
+
+	const metadata = data.metadata;
+	return {
+		// Extra properties can be placed in templates too; the standard variables take precedence
+		...data.properties,
+		title: data.title,
+		content: data.content,
+		// Tags with spaces or punctuation would break the frontmatter
+		tags: sanitizeTags(data.tags),
+		url: data.url,
+		selection: data.selection,
+		summary: data.summary,
+		domain,
+		author: metadata && metadata.author.length > 0 ? metadata.author : undefined,
+		published: metadata?.published,
+		site: metadata?.site,
+		description: metadata?.description,
+		canonical: metadata?.canonical,
+		cover: metadata?.image
+	};
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+	const match = template.match(FRONTMATTER);
+	if (!match) {
+		return renderBody(template, context);
+	}
+
+	const frontmatter = appendProperties(renderFrontmatter(match[1], context), context.properties);
+	const body = renderBody(template.substring(match[0].length), context);
+	return `---\n${frontmatter}\n---${match[2] || ''}${body}`;
+}
+
+// Moment.js-compatible formatting for the common tokens, so templates keep Obsidian's date syntax
+export function formatDate(date: Date, format: string): string {
+	const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+	const offset = (separator: string) => {
+		const minutes = -date.getTimezoneOffset();
+		const sign = minutes >= 0 ? '+' : '-';
+		return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}${separator}${pad(Math.abs(minutes) % 60)}`;
+	};
+	const dayOfYear = () => {
+		const start = new Date(date.getFullYear(), 0, 0);
+		return Math.floor((date.getTime() - start.getTime()) / 86400000);
+	};
+
+	return format.replace(DATE_TOKENS, (token, literal?: string) => {
+		if (literal !== undefined) return literal;
+		switch (token) {
+			case 'YYYY': return String(date.getFullYear());
+			case 'YY': return pad(date.getFullYear() % 100);
+			case 'MMMM': return MONTHS[date.getMonth()];
+			case 'MMM': return MONTHS[date.getMonth()].substring(0, 3);
+			case 'MM': return pad(date.getMonth() + 1);
+			case 'M': return String(date.getMonth() + 1);
+			case 'DDDD': return pad(dayOfYear(), 3);
+			case 'DD': return pad(date.getDate());
+			case 'Do': return ordinal(date.getDate());
+			case 'D': return String(date.getDate());
+			case 'dddd': return WEEKDAYS[date.getDay()];
+			case 'ddd': return WEEKDAYS[date.getDay()].substring(0, 3);
+			case 'HH': return pad(date.getHours());
+			case 'H': return String(date.getHours());
+			case 'hh': return pad(date.getHours() % 12 || 12);
+			case 'h': return String(date.getHours() % 12 || 12);
+			case 'mm': return pad(date.getMinutes());
+			case 'm': return String(date.getMinutes());
+			case 'ss': return pad(date.getSeconds());
+			case 's': return String(date.getSeconds());
+			case 'A': return date.getHours() < 12 ? 'AM' : 'PM';
+			case 'a': return date.getHours() < 12 ? 'am' : 'pm';
+			case 'ZZ': return offset('');
+			case 'Z': return offset(':');
+			case 'X': return String(Math.floor(date.getTime() / 1000));
+			case 'x': return String(date.getTime());
+			default: return token;
+		}
+	});
+}
+
+function ordinal(value: number): string {
+	const suffixes = ['th', 'st', 'nd', 'rd'];
+	const remainder = value % 100;
+	return value + (suffixes[(remainder - 20) % 10] || suffixes[remainder] || suffixes[0]);
+}
+
+function lookup(name: string, argument: string | undefined, context: TemplateContext): TemplateValue | null {
+	if (name === 'date') {
+		return formatDate(context.date, argument?.trim() || DEFAULT_DATE_FORMAT);
+	}
+	if (!(name in context.variables)) {
+		// Unknown placeholders are left alone (other plugins may process them)
+		return null;
+	}
+	return context.variables[name];
+}
+
+function isEmpty(value: TemplateValue): boolean {
+	return value === undefined || value === '';
+}
+
+function renderBody(text: string, context: TemplateContext): string {
+	return text.replace(PLACEHOLDER, (placeholder, name: string, argument?: string) => {
+		const value = lookup(name, argument, context);
+		if (value === null) return placeholder;
+		if (value === undefined) return '';
+		if (Array.isArray(value)) {
+			// Tags become inline hashtags in the body, other lists are comma separated
+			return name === 'tags' ? value.map(t => `#${t}`).join(' ') : value.join(', ');
+		}
+		return value;
+	});
+}
+
+function renderFrontmatter(text: string, context: TemplateContext): string {
+	const lines: string[] = [];
+
+	for (const line of text.split(/\r?\n/)) {
+		const keyValue = line.match(KEY_VALUE);
+
+		if (keyValue) {
+			const value = keyValue[2].trim();
+
+			// `key: {{var}}` with nothing to insert: leave the property out entirely
+			const sole = value.match(/^\{\{\s*([\w-]+)(?::([^}]*))?\s*\}\}$/);
+			if (sole) {
+				const resolved = lookup(sole[1], sole[2], context);
+				if (resolved === null) {
+					lines.push(line);
+				} else if (!isEmpty(resolved)) {
+					lines.push(keyValue[1] + (Array.isArray(resolved) ? yamlList(resolved) : yamlScalar(resolved as string)));
+				}
+				continue;
+			}
+
+			// Placeholders inside a bare value: render the whole value, then quote it if needed
+			if (/\{\{/.test(value) && !/^["'[{|>]/.test(value)) {
+				const rendered = value.replace(PLACEHOLDER, (placeholder, name: string, argument?: string) => {
+					const resolved = lookup(name, argument, context);
+					if (resolved === null) return placeholder;
+					return Array.isArray(resolved) ? resolved.join(', ') : resolved || '';
+				});
+				lines.push(keyValue[1] + yamlScalar(rendered));
+				continue;
+			}
+		}
+
+		lines.push(renderQuotedContext(line, context));
+	}
+
+	return lines.join('\n');
+}
+
+function appendProperties(frontmatter: string, properties?: Record<string, TemplateValue>): string {
+	if (!properties) return frontmatter;
+
+	const keys = new Set(frontmatter.split('\n')
+		.map(line => line.match(/^([^\s:#][^:]*):/)?.[1].trim())
+		.filter((key): key is string => !!key));
+
+	const lines: string[] = [];
+	for (const key of Object.keys(properties)) {
+		const value = properties[key];
+		if (keys.has(key) || isEmpty(value) || (Array.isArray(value) && value.length === 0)) continue;
+		lines.push(`${key}: ${Array.isArray(value) ? yamlList(value) : yamlScalar(value as string)}`);
+	}
+
+	return lines.length > 0 ? [frontmatter, ...lines].filter(line => line !== '').join('\n') : frontmatter;
+}
+
+// Replace placeholders according to the quoting state at their position in the line
+function renderQuotedContext(line: string, context: TemplateContext): string {
+	let result = '';
+	let index = 0;
+	let inDouble = false;
+	let inSingle = false;
+	let flowDepth = 0;
+
+	const advance = (until: number) => {
+		for (let i = index; i < until; i++) {
+			const char = line[i];
+			if (inDouble) {
+				if (char === '\\') i++;
+				else if (char === '"') inDouble = false;
+			} else if (inSingle) {
+				if (char === '\'') inSingle = false;
+			} else if (char === '"') {
+				inDouble = true;
+			} else if (char === '\'') {
+				inSingle = true;
+			} else if (char === '[' || char === '{') {
+				flowDepth++;
+			} else if (char === ']' || char === '}') {
+				flowDepth = Math.max(0, flowDepth - 1);
+			}
+		}
+		result += line.substring(index, until);
+		index = until;
+	};
+
+	PLACEHOLDER.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = PLACEHOLDER.exec(line)) !== null) {
+		advance(match.index);
+		const resolved = lookup(match[1], match[2], context);
+		index = match.index + match[0].length;
+
+		if (resolved === null) {
+			result += match[0];
+			continue;
+		}
+
+		const flat = Array.isArray(resolved) ? resolved.join(', ') : resolved || '';
+		if (inDouble) {
+			result += escapeDoubleQuoted(flat);
+		} else if (inSingle) {
+			result += escapeSingleQuoted(flat);
+		} else if (flowDepth > 0) {
+			const items = Array.isArray(resolved) ? resolved : resolved ? [resolved] : [];
+			result += items.map(v => yamlScalar(v, true)).join(', ');
+		} else {
+			result += Array.isArray(resolved) ? yamlList(resolved) : yamlScalar(flat);
+		}
+	}
+	result += line.substring(index);
+
+	return result;
+}
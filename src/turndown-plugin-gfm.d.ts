@@ -0,0 +1,10 @@
+// turndown-plugin-gfm ships without types
+declare module 'turndown-plugin-gfm' {
+	import TurndownService from 'turndown';
+
+	export const gfm: TurndownService.Plugin;
+	export const tables: TurndownService.Plugin;
+	export const strikethrough: TurndownService.Plugin;
+	export const taskListItems: TurndownService.Plugin;
+	export const highlightedCodeBlock: TurndownService.Plugin;
+}
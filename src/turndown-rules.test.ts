@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { convertFixture, createTurndownService, readFixture } from './fixtures';
+
+test('structure fixture keeps figures, details, highlights, superscripts and subscripts', () => {
+	assert.equal(convertFixture('fixtures/structure.html'), readFixture('fixtures/structure.md').trim());
+});
+
+test('a superscript holding a footnote reference is not wrapped in HTML', () => {
+	const markdown = createTurndownService().turndown('<p>Text<sup><a data-clip-footnote="1">1</a></sup></p>');
+	assert.equal(markdown, 'Text[^1]');
+});
+
+test('an empty caption adds nothing below the image', () => {
+	const markdown = createTurndownService().turndown('<figure><img src="https://example.com/a.png" alt="A"><figcaption> </figcaption></figure>');
+	assert.equal(markdown, '![A](https://example.com/a.png)');
+});
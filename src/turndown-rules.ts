@@ -0,0 +1,84 @@
+// Turndown rules for the structure plain Turndown and GFM lose: math and footnotes marked by
+// markMath and markFootnotes, figure captions, and <details>, <mark>, <sup> and <sub>
+import TurndownService from 'turndown';
+import { FOOTNOTE_ATTRIBUTE, FOOTNOTE_DEFINITION_ATTRIBUTE, formatFootnoteDefinition } from './footnotes';
+import { MATH_ATTRIBUTE, formatMath } from './math';
+
+// Options of the pipeline's Turndown service, also used by the fixture tests
+export const TURNDOWN_OPTIONS: TurndownService.Options = {
+	headingStyle: 'atx',
+	hr: '---',
+	bulletListMarker: '-',
+	codeBlockStyle: 'fenced',
+	emDelimiter: '*'
+};
+
+export function clipRules(service: TurndownService) {
+	service.addRule('math', {
+		filter: node => node.hasAttribute(MATH_ATTRIBUTE),
+		replacement: (content, node) => {
+			const element = node as Element;
+			return formatMath(element.textContent || '', element.getAttribute(MATH_ATTRIBUTE) === 'display', !!element.closest('td, th'));
+		}
+	});
+
+	service.addRule('footnoteReferences', {
+		filter: node => node.hasAttribute(FOOTNOTE_ATTRIBUTE),
+		replacement: (content, node) => `[^${(node as Element).getAttribute(FOOTNOTE_ATTRIBUTE)}]`
+	});
+	service.addRule('footnoteDefinitions', {
+		filter: node => node.hasAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE),
+		replacement: (content, node) => formatFootnoteDefinition((node as Element).getAttribute(FOOTNOTE_DEFINITION_ATTRIBUTE) || '', content)
+	});
+
+	// The figure's image (or table, or code) followed by its caption in italics
+	service.addRule('figures', {
+		filter: 'figure',
+		replacement: content => `\n\n${content.trim()}\n\n`
+	});
+	service.addRule('figureCaptions', {
+		filter: 'figcaption',
+		replacement: content => {
+			const caption = content.trim().replace(/\s*\n\s*/g, ' ');
+			if (!caption) return '';
+			// Emphasis inside the caption would end the italics early
+			const delimiter = caption.includes('*') ? '_' : '*';
+			return `\n\n${delimiter}${caption}${delimiter}\n\n`;
+		}
+	});
+
+	// Obsidian renders these as HTML, with the markdown inside a <details> block
+	service.addRule('details', {
+		filter: 'details',
+		replacement: (content, node) => {
+			const element = node as Element;
+			const summary = Array.from(element.children).find(child => child.localName === 'summary');
+			const title = escapeHtml((summary?.textContent || 'Details').replace(/\s+/g, ' ').trim());
+			return `\n\n<details${element.hasAttribute('open') ? ' open' : ''}>\n<summary>${title}</summary>\n\n${content.trim()}\n\n</details>\n\n`;
+		}
+	});
+	service.addRule('summary', {
+		filter: 'summary',
+		replacement: () => ''
+	});
+
+	service.addRule('highlights', {
+		filter: 'mark',
+		replacement: content => content.trim() ? `==${content}==` : ''
+	});
+
+	// Footnote references are often superscripts; Obsidian only finds [^1] outside of HTML tags
+	service.addRule('superscripts', {
+		filter: ['sup', 'sub'],
+		replacement: (content, node) => {
+			const element = node as Element;
+			if (!content.trim()) return '';
+			if (element.querySelector(`[${FOOTNOTE_ATTRIBUTE}]`)) return content;
+			return `<${element.localName}>${content}</${element.localName}>`;
+		}
+	});
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,74 @@
+// URL helpers shared by fetching, metadata and source tracking
+
+// Query parameters that only identify campaigns, sessions or referrers
+const TRACKING_PARAMS = /^(utm_[a-z_]+|fbclid|gclid|gclsrc|dclid|msclkid|mc_cid|mc_eid|igshid|yclid|_ga|_gl|_hsenc|_hsmi|mkt_tok|oly_anon_id|oly_enc_id|vero_id|wickedid|ref_src|ref_url|si|spm|s_cid|cmpid|icid)$/i;
+
+export function stripTrackingParams(url: string): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch (error) {
+		return url;
+	}
+
+	const keys: string[] = [];
+	parsed.searchParams.forEach((value, key) => keys.push(key));
+	for (const key of keys) {
+		if (TRACKING_PARAMS.test(key)) {
+			parsed.searchParams.delete(key);
+		}
+	}
+
+	// Fragment-based tracking (e.g. "#xtor=RSS-1") is dropped as well
+	if (/^#?(xtor|utm_|at_)/i.test(parsed.hash)) {
+		parsed.hash = '';
+	}
+
+	return parsed.toString().replace(/\?$/, '');
+}
+
+export function resolveUrl(href: string, baseUrl: string): string | undefined {
+	try {
+		return new URL(href, baseUrl).toString();
+	} catch (error) {
+		return undefined;
+	}
+}
+
+// Comparable form of a URL: no tracking parameters, fragment, "www.", default port or
+// trailing slash, lowercase host and sorted query parameters
+export function normalizeUrl(url: string): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(stripTrackingParams(url.trim()));
+	} catch (error) {
+		return url.trim();
+	}
+
+	parsed.hash = '';
+	parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+	if ((parsed.protocol === 'https:' && parsed.port === '443') || (parsed.protocol === 'http:' && parsed.port === '80')) {
+		parsed.port = '';
+	}
+
+	const params: [string, string][] = [];
+	parsed.searchParams.forEach((value, key) => params.push([key, value]));
+	params.sort((a, b) => a[0].localeCompare(b[0]) || a[1].localeCompare(b[1]));
+	const query = params.map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`).join('&');
+
+	// http and https versions of a page are the same clip
+	const path = parsed.pathname.replace(/\/+$/, '');
+	return `${parsed.hostname}${parsed.port ? `:${parsed.port}` : ''}${path}${query ? `?${query}` : ''}`;
+}
+
+// URLs in a frontmatter value: plain strings, "[Website](url)" links or lists of either
+export function extractUrls(value: unknown): string[] {
+	if (Array.isArray(value)) {
+		const urls: string[] = [];
+		for (const item of value) urls.push(...extractUrls(item));
+		return urls;
+	}
+	if (typeof value !== 'string') return [];
+	// Balanced parentheses are part of the URL (Wikipedia), a closing one ends a markdown link
+	return value.match(/https?:\/\/(?:[^\s()"'<>\]]|\([^\s()]*\))+/g) || [];
+}
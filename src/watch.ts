@@ -0,0 +1,46 @@
+// Clipboard watch mode: which clipboard changes are captured automatically, and
+// content hashes to capture each text only once per session
+import { matchesDomain } from './routing';
+
+export interface WatchFilters {
+	captureUrls: boolean;
+	captureText: boolean;
+	// Characters; shorter text is ignored
+	minLength: number;
+	// Comma-separated domains; when set, only URLs on these domains are captured
+	allowedDomains: string;
+	blockedDomains: string;
+}
+
+// Why a clipboard text is captured, or null when the filters skip it
+export type WatchCapture = 'url' | 'text' | null;
+
+export function classifyCapture(text: string, filters: WatchFilters): WatchCapture {
+	const trimmed = text.trim();
+	if (trimmed === '') return null;
+
+	if (/^https?:\/\/\S+$/.test(trimmed)) {
+		if (!filters.captureUrls) return null;
+		const allowed = splitDomains(filters.allowedDomains);
+		if (allowed.length > 0 && !matchesDomain(trimmed, allowed)) return null;
+		if (matchesDomain(trimmed, splitDomains(filters.blockedDomains))) return null;
+		return 'url';
+	}
+
+	if (filters.captureText && trimmed.length >= filters.minLength) return 'text';
+	return null;
+}
+
+function splitDomains(list: string): string[] {
+	return list.split(/[,\n]/).map(domain => domain.trim()).filter(domain => domain !== '');
+}
+
+export async function hashText(text: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text.trim()));
+	return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function formatWatchStatus(watching: boolean, captured: number): string {
+	if (!watching) return 'Clipboard watch: off';
+	return `Clipboard watch: on (${captured === 1 ? '1 capture' : `${captured} captures`})`;
+}
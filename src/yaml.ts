@@ -0,0 +1,44 @@
+// YAML scalar escaping for generated frontmatter
+
+// Timestamps like 2025-10-05 or 2025-10-05 14:30 stay unquoted so Obsidian types them as dates
+const TIMESTAMP = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2})?)?$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|~)$/i;
+const NUMERIC = /^[-+]?(\d[\d_]*(\.\d*)?|\.\d+)([eE][-+]?\d+)?$|^0[xo]/i;
+
+// Double-quoted YAML scalar with backslashes, quotes and line breaks escaped
+export function yamlString(value: string): string {
+	return `"${escapeDoubleQuoted(value)}"`;
+}
+
+export function escapeDoubleQuoted(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/"/g, '\\"')
+		.replace(/\r?\n/g, '\\n')
+		.replace(/\t/g, '\\t');
+}
+
+export function escapeSingleQuoted(value: string): string {
+	return value.replace(/'/g, '\'\'').replace(/\r?\n/g, ' ');
+}
+
+// Plain scalar when that is unambiguous, double-quoted otherwise
+export function yamlScalar(value: string, inFlow = false): string {
+	if (TIMESTAMP.test(value)) {
+		return value;
+	}
+
+	const needsQuoting = value === '' ||
+		/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+		/\s$/.test(value) ||
+		/: |:$| #|[\n\r\t\\]/.test(value) ||
+		(inFlow && /[,[\]{}]/.test(value)) ||
+		RESERVED.test(value) ||
+		NUMERIC.test(value);
+
+	return needsQuoting ? yamlString(value) : value;
+}
+
+export function yamlList(values: string[]): string {
+	return `[${values.map(v => yamlScalar(v, true)).join(', ')}]`;
+}
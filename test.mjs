@@ -0,0 +1,36 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import { readdirSync, rmSync } from "fs";
+import { join } from "path";
+import process from "process";
+
+// Tests are the src/**/*.test.ts files, bundled like the command line tool and run with node --test.
+// Fixtures are read relative to the repository root.
+const outdir = '.build/test';
+
+function findTests(dir) {
+	return readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+		const path = join(dir, entry.name);
+		if (entry.isDirectory()) return findTests(path);
+		return entry.name.endsWith('.test.ts') ? [path] : [];
+	});
+}
+
+const entryPoints = findTests('src');
+rmSync(outdir, { recursive: true, force: true });
+
+await esbuild.build({
+	entryPoints,
+	outdir,
+	outbase: 'src',
+	bundle: true,
+	platform: 'node',
+	packages: 'external',
+	format: 'cjs',
+	target: 'node20',
+	logLevel: "warning",
+});
+
+const outputs = entryPoints.map(path => join(outdir, path.replace(/^src[\\/]/, '').replace(/\.ts$/, '.js')));
+const result = spawnSync(process.execPath, ['--test', ...outputs], { stdio: 'inherit' });
+process.exit(result.status ?? 1);